@@ -1,8 +1,12 @@
-import { describe, it, expect } from "vitest";
+import {describe, it, expect, afterEach, vi} from "vitest";
 import {
     mapAnthropicMessagesRequestToGemini,
+    mapErrorToAnthropic,
     mapGeminiResponseToAnthropic,
+    resolveAnthropicMediaSources,
 } from "./anthropic-mapper.js";
+import {GeminiApiError} from "./client.js";
+import {MediaResolutionError} from "./media-resolver.js";
 import * as Anthropic from "../types/anthropic.js";
 import * as Gemini from "../types/gemini.js";
 
@@ -54,6 +58,34 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
         expect(result.request.generationConfig?.temperature).toBe(0.7);
     });
 
+    it("should map max_tokens, top_p and top_k to generationConfig", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-haiku-20240307",
+            max_tokens: 512,
+            top_p: 0.9,
+            top_k: 40,
+            stop_sequences: ["END"],
+            messages: [
+                {
+                    role: "user",
+                    content: "Test message",
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.generationConfig).toEqual({
+            temperature: 1,
+            maxOutputTokens: 512,
+            topP: 0.9,
+            topK: 40,
+        });
+    });
+
     it("should map request with system message", () => {
         const request: Anthropic.MessagesRequest = {
             model: "claude-3-opus-20240229",
@@ -83,6 +115,104 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
         ]);
     });
 
+    it("should map request with system prompt as a plain string", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-opus-20240229",
+            max_tokens: 1000,
+            system: "You are a helpful assistant",
+            messages: [
+                {
+                    role: "user",
+                    content: "Hello",
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.systemInstruction).toEqual({
+            parts: [{text: "You are a helpful assistant"}],
+        });
+    });
+
+    it("should not set system instruction for an empty system string", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-opus-20240229",
+            max_tokens: 1000,
+            system: "",
+            messages: [
+                {
+                    role: "user",
+                    content: "Hello",
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.systemInstruction).toBeUndefined();
+    });
+
+    it("should strip cache_control markers from system, messages and tools", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            system: [
+                {
+                    type: "text",
+                    text: "Long cached prompt",
+                    cache_control: {type: "ephemeral"},
+                },
+            ],
+            tools: [
+                {
+                    name: "search",
+                    description: "Search",
+                    input_schema: {type: "object"},
+                    cache_control: {type: "ephemeral"},
+                },
+            ],
+            messages: [
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "text",
+                            text: "Question\n",
+                            cache_control: {type: "ephemeral", ttl: "1h"},
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.systemInstruction?.parts).toEqual([
+            {text: "Long cached prompt"},
+        ]);
+        expect(result.request.contents[0].parts).toEqual([
+            {text: "Question\n"},
+        ]);
+        expect(result.request.tools?.[0].functionDeclarations).toEqual([
+            {
+                name: "search",
+                description: "Search",
+                parameters: {type: "object"},
+            },
+        ]);
+        expect(JSON.stringify(result)).not.toContain("cache_control");
+    });
+
     it("should map request with tools and comprehensive schema conversion", () => {
         const request: Anthropic.MessagesRequest = {
             model: "claude-3-5-sonnet-20241022",
@@ -468,6 +598,300 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
         ]);
     });
 
+    it("should map tool_use and tool_result blocks to function parts", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "user",
+                    content: "What is the weather in Paris?",
+                },
+                {
+                    role: "assistant",
+                    content: [
+                        {
+                            type: "tool_use",
+                            id: "toolu_1",
+                            name: "get_weather",
+                            input: {location: "Paris"},
+                        },
+                    ],
+                },
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "tool_result",
+                            tool_use_id: "toolu_1",
+                            content: "Sunny, 22C",
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents[1]).toEqual({
+            role: "model",
+            parts: [
+                {
+                    functionCall: {
+                        name: "get_weather",
+                        args: {location: "Paris"},
+                    },
+                },
+            ],
+        });
+        expect(result.request.contents[2]).toEqual({
+            role: "user",
+            parts: [
+                {
+                    functionResponse: {
+                        name: "get_weather",
+                        response: {result: "Sunny, 22C"},
+                    },
+                },
+            ],
+        });
+    });
+
+    it("should resolve tool names from earlier turns in the conversation", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [
+                        {
+                            type: "tool_use",
+                            id: "toolu_a",
+                            name: "read_file",
+                            input: {path: "a.ts"},
+                        },
+                        {
+                            type: "tool_use",
+                            id: "toolu_b",
+                            name: "list_dir",
+                            input: {path: "."},
+                        },
+                    ],
+                },
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "tool_result",
+                            tool_use_id: "toolu_b",
+                            content: [{type: "text", text: "a.ts"}],
+                        },
+                        {
+                            type: "tool_result",
+                            tool_use_id: "toolu_a",
+                            content: "export {}",
+                        },
+                        {
+                            type: "tool_result",
+                            tool_use_id: "toolu_missing",
+                            content: "orphan",
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        const names = result.request.contents[1].parts.map(
+            (part) =>
+                (part as Gemini.FunctionResponsePart).functionResponse.name
+        );
+        expect(names).toEqual(["list_dir", "read_file", "unknown"]);
+    });
+
+    it("should map errored tool results with image content", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [
+                        {
+                            type: "tool_use",
+                            id: "toolu_1",
+                            name: "screenshot",
+                            input: {},
+                        },
+                    ],
+                },
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "tool_result",
+                            tool_use_id: "toolu_1",
+                            is_error: true,
+                            content: [
+                                {type: "text", text: "Page crashed"},
+                                {
+                                    type: "image",
+                                    source: {
+                                        type: "base64",
+                                        media_type: "image/png",
+                                        data: "png-data",
+                                    },
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents[1].parts).toEqual([
+            {
+                functionResponse: {
+                    name: "screenshot",
+                    response: {error: "Page crashed"},
+                },
+            },
+            {
+                inlineData: {
+                    mimeType: "image/png",
+                    data: "png-data",
+                },
+            },
+        ]);
+    });
+
+    it("should map thinking param to thinkingConfig", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-sonnet-4-20250514",
+            max_tokens: 16000,
+            thinking: {type: "enabled", budget_tokens: 4096},
+            messages: [
+                {
+                    role: "user",
+                    content: "Think about it",
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.generationConfig?.thinkingConfig).toEqual({
+            thinkingBudget: 4096,
+            includeThoughts: true,
+        });
+    });
+
+    it("should not set thinkingConfig when thinking is disabled", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-sonnet-4-20250514",
+            max_tokens: 1000,
+            thinking: {type: "disabled"},
+            messages: [
+                {
+                    role: "user",
+                    content: "Hello",
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.generationConfig?.thinkingConfig).toBeUndefined();
+    });
+
+    it("should re-attach thinking signatures to the following function call", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-sonnet-4-20250514",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [
+                        {
+                            type: "thinking",
+                            thinking: "I should look it up",
+                            signature: "sig-1",
+                        },
+                        {type: "text", text: "Let me check."},
+                        {
+                            type: "tool_use",
+                            id: "toolu_1",
+                            name: "search",
+                            input: {q: "weather"},
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents[0].parts).toEqual([
+            {text: "I should look it up", thought: true},
+            {text: "Let me check.\n"},
+            {
+                functionCall: {name: "search", args: {q: "weather"}},
+                thoughtSignature: "sig-1",
+            },
+        ]);
+    });
+
+    it("should re-attach thinking signatures to text when there is no function call", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-sonnet-4-20250514",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "assistant",
+                    content: [
+                        {
+                            type: "thinking",
+                            thinking: "",
+                            signature: "sig-2",
+                        },
+                        {type: "text", text: "Done.\n"},
+                    ],
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents[0].parts).toEqual([
+            {text: "Done.\n", thoughtSignature: "sig-2"},
+        ]);
+    });
+
     it("should handle invalid tool_choice with fallback to auto", () => {
         const request: Anthropic.MessagesRequest = {
             model: "claude-3-5-sonnet-20241022",
@@ -499,6 +923,162 @@ describe("mapAnthropicMessagesRequestToGemini", () => {
             },
         });
     });
+    it("should map document blocks to inline data", () => {
+        const request: Anthropic.MessagesRequest = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "document",
+                            source: {
+                                type: "base64",
+                                media_type: "application/pdf",
+                                data: "JVBERi0=",
+                            },
+                            title: "Report",
+                        },
+                        {
+                            type: "document",
+                            source: {
+                                type: "text",
+                                media_type: "text/plain",
+                                data: "hello",
+                            },
+                        },
+                        {
+                            type: "document",
+                            source: {
+                                type: "content",
+                                content: [{type: "text", text: "chunk"}],
+                            },
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const result = mapAnthropicMessagesRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents[0].parts).toEqual([
+            {text: "Report\n"},
+            {inlineData: {mimeType: "application/pdf", data: "JVBERi0="}},
+            {inlineData: {mimeType: "text/plain", data: "aGVsbG8="}},
+            {text: "chunk"},
+        ]);
+    });
+});
+
+describe("resolveAnthropicMediaSources", () => {
+    const originalFetch = global.fetch;
+    const pngBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it("should inline url sources of images and documents", async () => {
+        global.fetch = vi
+            .fn()
+            .mockImplementation(async () => new Response(pngBytes));
+
+        const messages: Anthropic.Message[] = [
+            {
+                role: "user",
+                content: [
+                    {
+                        type: "image",
+                        source: {type: "url", url: "https://a.test/1"},
+                    },
+                    {
+                        type: "document",
+                        source: {type: "url", url: "https://a.test/2"},
+                    },
+                    {type: "text", text: "Compare them"},
+                ],
+            },
+        ];
+
+        const result = await resolveAnthropicMediaSources(messages);
+
+        const source = {
+            type: "base64",
+            media_type: "image/png",
+            data: "iVBORw==",
+        };
+        expect(result[0].content).toEqual([
+            {type: "image", source},
+            {type: "document", source},
+            {type: "text", text: "Compare them"},
+        ]);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should inline url images of tool results", async () => {
+        global.fetch = vi
+            .fn()
+            .mockImplementation(async () => new Response(pngBytes));
+
+        const result = await resolveAnthropicMediaSources([
+            {
+                role: "user",
+                content: [
+                    {
+                        type: "tool_result",
+                        tool_use_id: "toolu_1",
+                        content: [
+                            {
+                                type: "image",
+                                source: {type: "url", url: "https://a.test"},
+                            },
+                        ],
+                    },
+                ],
+            },
+        ]);
+
+        expect(result[0].content).toEqual([
+            {
+                type: "tool_result",
+                tool_use_id: "toolu_1",
+                content: [
+                    {
+                        type: "image",
+                        source: {
+                            type: "base64",
+                            media_type: "image/png",
+                            data: "iVBORw==",
+                        },
+                    },
+                ],
+            },
+        ]);
+    });
+
+    it("should reject image urls that are not images", async () => {
+        global.fetch = vi.fn().mockResolvedValue(
+            new Response("<html>", {headers: {"content-type": "text/html"}})
+        );
+
+        await expect(
+            resolveAnthropicMediaSources([
+                {
+                    role: "user",
+                    content: [
+                        {
+                            type: "image",
+                            source: {type: "url", url: "https://a.test"},
+                        },
+                    ],
+                },
+            ])
+        ).rejects.toThrow(MediaResolutionError);
+    });
 });
 
 describe("mapGeminiResponseToAnthropic", () => {
@@ -622,6 +1202,68 @@ describe("mapGeminiResponseToAnthropic", () => {
         });
     });
 
+    it("should map reasoning to a signed thinking block", () => {
+        const geminiResponse = {
+            content: "The answer is 4.",
+            reasoning: "2 + 2 = 4",
+            thoughtSignature: "sig-abc",
+        };
+
+        const result = mapGeminiResponseToAnthropic(
+            geminiResponse,
+            "claude-sonnet-4-20250514",
+            "req-thinking"
+        );
+
+        expect(result.content).toEqual([
+            {
+                type: "thinking",
+                thinking: "2 + 2 = 4",
+                signature: "sig-abc",
+            },
+            {
+                type: "text",
+                text: "The answer is 4.",
+            },
+        ]);
+    });
+
+    it("should report max_tokens when output was truncated", () => {
+        const result = mapGeminiResponseToAnthropic(
+            {content: "Partial", finishReason: "length"},
+            "claude-3-5-sonnet-20241022",
+            "req-length"
+        );
+
+        expect(result.stop_reason).toBe("max_tokens");
+    });
+
+    it("should report a refusal when output was filtered", () => {
+        const result = mapGeminiResponseToAnthropic(
+            {content: "", finishReason: "content_filter"},
+            "claude-3-5-sonnet-20241022",
+            "req-filtered"
+        );
+
+        expect(result.stop_reason).toBe("refusal");
+    });
+
+    it("should truncate content at a matched stop sequence", () => {
+        const result = mapGeminiResponseToAnthropic(
+            {
+                content: "Answer: 42\nHuman: next",
+                finishReason: "stop",
+            },
+            "claude-3-5-sonnet-20241022",
+            "req-stop",
+            ["\nHuman:"]
+        );
+
+        expect(result.content).toEqual([{type: "text", text: "Answer: 42"}]);
+        expect(result.stop_reason).toBe("stop_sequence");
+        expect(result.stop_sequence).toBe("\nHuman:");
+    });
+
     it("should handle response with no content or tool calls", () => {
         const geminiResponse = {
             usage: {
@@ -681,6 +1323,31 @@ describe("mapGeminiResponseToAnthropic", () => {
         });
     });
 
+    it("should report cached tokens separately from input tokens", () => {
+        const geminiResponse = {
+            content: "Cached answer",
+            usage: {
+                inputTokens: 1000,
+                outputTokens: 50,
+                thoughtTokens: 30,
+                cachedTokens: 800,
+            },
+        };
+
+        const result = mapGeminiResponseToAnthropic(
+            geminiResponse,
+            "claude-3-5-sonnet-20241022",
+            "req-cached"
+        );
+
+        expect(result.usage).toEqual({
+            input_tokens: 200,
+            // Thinking counts as output
+            output_tokens: 80,
+            cache_read_input_tokens: 800,
+        });
+    });
+
     it("should handle malformed JSON in tool call arguments", () => {
         const geminiResponse = {
             tool_calls: [
@@ -694,12 +1361,77 @@ describe("mapGeminiResponseToAnthropic", () => {
             ],
         };
 
-        expect(() => {
-            mapGeminiResponseToAnthropic(
-                geminiResponse,
-                "claude-3-5-sonnet-20241022",
-                "req-bad-json"
+        const result = mapGeminiResponseToAnthropic(
+            geminiResponse,
+            "claude-3-5-sonnet-20241022",
+            "req-bad-json"
+        );
+
+        expect(result.content).toEqual([
+            {
+                type: "tool_use",
+                id: "tool_call_bad_json",
+                name: "bad_tool",
+                input: {raw_arguments: "invalid json"},
+            },
+        ]);
+    });
+});
+
+describe("mapErrorToAnthropic", () => {
+    it.each([
+        [400, 400, "invalid_request_error"],
+        [401, 401, "authentication_error"],
+        [403, 403, "permission_error"],
+        [404, 404, "not_found_error"],
+        [429, 429, "rate_limit_error"],
+        [503, 529, "overloaded_error"],
+        [529, 529, "overloaded_error"],
+        [500, 500, "api_error"],
+        [408, 500, "api_error"],
+    ])(
+        "should map upstream status %i to %i %s",
+        (upstreamStatus, statusCode, type) => {
+            const result = mapErrorToAnthropic(
+                new GeminiApiError("Upstream failure", upstreamStatus)
             );
-        }).toThrow();
+
+            expect(result.statusCode).toBe(statusCode);
+            expect(result.error).toEqual({
+                type: "error",
+                error: {type, message: "Upstream failure"},
+            });
+        }
+    );
+
+    it("should default retryAfter for retryable errors", () => {
+        const result = mapErrorToAnthropic(new GeminiApiError("Slow down", 429));
+
+        expect(result.retryAfter).toBe(60);
+    });
+
+    it("should not set retryAfter for permanent errors", () => {
+        const result = mapErrorToAnthropic(new GeminiApiError("Bad", 400));
+
+        expect(result.retryAfter).toBeUndefined();
+    });
+
+    it("should map media resolution errors to invalid_request_error", () => {
+        const result = mapErrorToAnthropic(
+            new MediaResolutionError("Fetching media failed")
+        );
+
+        expect(result.statusCode).toBe(400);
+        expect(result.error.error.type).toBe("invalid_request_error");
+    });
+
+    it("should map unknown errors to api_error", () => {
+        const result = mapErrorToAnthropic(new Error("Boom"));
+
+        expect(result.statusCode).toBe(500);
+        expect(result.error.error).toEqual({
+            type: "api_error",
+            message: "Boom",
+        });
     });
 });
@@ -1,7 +1,19 @@
 import * as Anthropic from "../types/anthropic.js";
+import * as OpenAI from "../types/openai.js";
 import * as Gemini from "../types/gemini.js";
-import { DEFAULT_TEMPERATURE } from "../utils/constant.js";
-import { mapModelToGemini, mapJsonSchemaToGemini } from "./mapper.js";
+import {
+    DEFAULT_COOLDOWN_MINUTES,
+    DEFAULT_TEMPERATURE,
+} from "../utils/constant.js";
+import {
+    mapModelToGemini,
+    mapJsonSchemaToGemini,
+    mapToolResultToGemini,
+} from "./mapper.js";
+import {GeminiApiError, type CompletionUsage} from "./client.js";
+import {StopSequenceMatcher} from "./stop-sequence-matcher.js";
+import {fetchMedia, MediaResolutionError} from "./media-resolver.js";
+import {parseToolArguments} from "./tool-arguments.js";
 
 export const mapAnthropicMessagesRequestToGemini = (
     project: string | undefined,
@@ -14,11 +26,21 @@ export const mapAnthropicMessagesRequestToGemini = (
         contents: mapAnthropicMessagesToGeminiFormat(request.messages),
         generationConfig: {
             temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+            ...(request.max_tokens && {maxOutputTokens: request.max_tokens}),
+            ...(request.top_p !== undefined && {topP: request.top_p}),
+            ...(request.top_k !== undefined && {topK: request.top_k}),
         },
     };
 
-    // Handle system message
-    if (request.system) {
+    // Handle system message, either a plain string or an array of text blocks.
+    // Only the text is copied so cache_control markers are dropped
+    if (typeof request.system === "string") {
+        if (request.system) {
+            geminiRequest.systemInstruction = {
+                parts: [{text: request.system}],
+            };
+        }
+    } else if (Array.isArray(request.system)) {
         const parts = request.system
             .filter((msg) => msg.type === "text")
             .map((msg) => ({ text: msg.text }));
@@ -54,8 +76,20 @@ export const mapAnthropicMessagesRequestToGemini = (
         );
     }
 
-    // Note: Gemini doesn't support top_p, top_k, stop_sequences in generationConfig
-    // These parameters are ignored for now
+    if (request.thinking?.type === "enabled") {
+        geminiRequest.generationConfig = {
+            ...geminiRequest.generationConfig,
+            thinkingConfig: {
+                thinkingBudget: request.thinking.budget_tokens,
+                includeThoughts: true,
+            },
+        };
+    }
+
+    // Note: stop_sequences are not forwarded to Gemini, it would strip the
+    // matched sequence and report a plain STOP, so which one was hit could
+    // not be told. They are matched on the output instead, streams stop
+    // reading from Gemini once one is found (see StopSequenceMatcher)
 
     return {
         model,
@@ -68,16 +102,41 @@ const mapAnthropicMessagesToGeminiFormat = (
     messages: Anthropic.Message[]
 ): Gemini.ChatMessage[] => {
     const geminiMessages: Gemini.ChatMessage[] = [];
+    const toolNames = collectToolUseNames(messages);
 
     for (const message of messages) {
-        geminiMessages.push(mapAnthropicMessageToGeminiFormat(message));
+        geminiMessages.push(
+            mapAnthropicMessageToGeminiFormat(message, toolNames)
+        );
     }
 
     return geminiMessages;
 };
 
+// tool_result blocks only carry the tool_use_id, but Gemini needs the function
+// name on every functionResponse, so resolve names across the whole conversation
+const collectToolUseNames = (
+    messages: Anthropic.Message[]
+): Map<string, string> => {
+    const toolNames = new Map<string, string>();
+
+    for (const message of messages) {
+        if (typeof message.content === "string") {
+            continue;
+        }
+        for (const content of message.content) {
+            if (content.type === "tool_use") {
+                toolNames.set(content.id, content.name);
+            }
+        }
+    }
+
+    return toolNames;
+};
+
 const mapAnthropicMessageToGeminiFormat = (
-    message: Anthropic.Message
+    message: Anthropic.Message,
+    toolNames: Map<string, string>
 ): Gemini.ChatMessage => {
     const role = message.role === "assistant" ? "model" : "user";
 
@@ -90,9 +149,28 @@ const mapAnthropicMessageToGeminiFormat = (
 
     // Handle array content
     const parts: Gemini.Part[] = [];
+    let pendingSignature: PendingThoughtSignature | undefined;
 
     for (const content of message.content) {
-        if (content.type === "text") {
+        if (content.type === "thinking") {
+            if (pendingSignature) {
+                attachThoughtSignature(parts, pendingSignature);
+                pendingSignature = undefined;
+            }
+
+            let thoughtPart: Gemini.TextPart | undefined;
+            if (content.thinking) {
+                thoughtPart = {text: content.thinking, thought: true};
+                parts.push(thoughtPart);
+            }
+            if (content.signature) {
+                pendingSignature = {
+                    signature: content.signature,
+                    thoughtPart,
+                    start: parts.length,
+                };
+            }
+        } else if (content.type === "text") {
             // Gemini API merges text parts without delimiter for consecutive user messages
             // which results awkward results
             // E.g: ["Create a file named test.ts", "then add test cases"] results
@@ -103,19 +181,253 @@ const mapAnthropicMessageToGeminiFormat = (
             }
             parts.push({ text });
         } else if (content.type === "image") {
-            const imageContent = content as Anthropic.ImageContent;
+            parts.push(...mapAnthropicImageToGemini(content));
+        } else if (content.type === "document") {
+            parts.push(...mapAnthropicDocumentToGemini(content));
+        } else if (content.type === "tool_use") {
             parts.push({
-                inlineData: {
-                    mimeType: imageContent.source.media_type,
-                    data: imageContent.source.data,
+                functionCall: {
+                    name: content.name,
+                    args: content.input ?? {},
                 },
+                ...(pendingSignature && {
+                    thoughtSignature: pendingSignature.signature,
+                }),
             });
+            pendingSignature = undefined;
+        } else if (content.type === "tool_result") {
+            parts.push(...mapAnthropicToolResultToGemini(content, toolNames));
         }
     }
 
+    if (pendingSignature) {
+        attachThoughtSignature(parts, pendingSignature);
+    }
+
     return { role, parts };
 };
 
+type PendingThoughtSignature = {
+    signature: string;
+    thoughtPart?: Gemini.TextPart;
+    // Index of the first part produced after the thinking block
+    start: number;
+};
+
+// Gemini expects the signature on the part that followed the thoughts: the
+// first function call when there is one (handled inline while mapping), else
+// the first text part. Fall back to the thought itself so it is never lost.
+const attachThoughtSignature = (
+    parts: Gemini.Part[],
+    {signature, thoughtPart, start}: PendingThoughtSignature
+): void => {
+    const textPart = parts
+        .slice(start)
+        .find(
+            (part): part is Gemini.TextPart => "text" in part && !part.thought
+        );
+
+    if (textPart) {
+        textPart.thoughtSignature = signature;
+    } else if (thoughtPart) {
+        thoughtPart.thoughtSignature = signature;
+    } else {
+        parts.push({text: "", thoughtSignature: signature});
+    }
+};
+
+// URL sources are replaced with base64 ones by resolveAnthropicMediaSources
+// before mapping, any left over here can't be sent to Gemini and are dropped
+const mapAnthropicImageToGemini = (
+    image: Anthropic.ImageContent
+): Gemini.InlineDataPart[] =>
+    image.source.type === "base64"
+        ? [
+            {
+                inlineData: {
+                    mimeType: image.source.media_type,
+                    data: image.source.data,
+                },
+            },
+        ]
+        : [];
+
+const mapAnthropicDocumentToGemini = (
+    document: Anthropic.DocumentContent
+): Gemini.Part[] => {
+    const parts: Gemini.Part[] = [];
+
+    // Gemini has no notion of document metadata, so pass it on as text
+    const header = [document.title, document.context]
+        .filter((value) => value)
+        .join("\n");
+    if (header) {
+        parts.push({text: `${header}\n`});
+    }
+
+    const {source} = document;
+    if (source.type === "base64") {
+        parts.push({
+            inlineData: {mimeType: source.media_type, data: source.data},
+        });
+    } else if (source.type === "text") {
+        parts.push({
+            inlineData: {
+                mimeType: source.media_type,
+                data: Buffer.from(source.data, "utf-8").toString("base64"),
+            },
+        });
+    } else if (source.type === "content") {
+        if (typeof source.content === "string") {
+            parts.push({text: source.content});
+        } else {
+            for (const content of source.content) {
+                if (content.type === "text") {
+                    parts.push({text: content.text});
+                } else if (content.type === "image") {
+                    parts.push(...mapAnthropicImageToGemini(content));
+                }
+            }
+        }
+    }
+
+    return parts;
+};
+
+/**
+ * Downloads the media behind url sources of image and document blocks and
+ * inlines it as base64, since Gemini only accepts inline data for them.
+ * Throws MediaResolutionError when a source can't be fetched.
+ */
+export const resolveAnthropicMediaSources = async (
+    messages: Anthropic.Message[],
+    signal?: AbortSignal
+): Promise<Anthropic.Message[]> =>
+    Promise.all(
+        messages.map(async (message) => {
+            if (typeof message.content === "string") {
+                return message;
+            }
+            return {
+                ...message,
+                content: await Promise.all(
+                    message.content.map((content) =>
+                        resolveRequestContentSource(content, signal)
+                    )
+                ),
+            };
+        })
+    );
+
+const resolveRequestContentSource = async (
+    content: Anthropic.RequestContent,
+    signal?: AbortSignal
+): Promise<Anthropic.RequestContent> => {
+    if (content.type === "image") {
+        return resolveImageSource(content, signal);
+    }
+
+    if (content.type === "document") {
+        const {source} = content;
+        if (source.type === "url") {
+            const media = await fetchMedia(source.url, signal);
+            return {
+                ...content,
+                source: {
+                    type: "base64",
+                    media_type: media.mimeType,
+                    data: media.data,
+                },
+            };
+        }
+        if (source.type === "content" && Array.isArray(source.content)) {
+            return {
+                ...content,
+                source: {
+                    ...source,
+                    content: await Promise.all(
+                        source.content.map((item) =>
+                            resolveContentSource(item, signal)
+                        )
+                    ),
+                },
+            };
+        }
+    }
+
+    if (content.type === "tool_result" && Array.isArray(content.content)) {
+        return {
+            ...content,
+            content: await Promise.all(
+                content.content.map((item) =>
+                    resolveContentSource(item, signal)
+                )
+            ),
+        };
+    }
+
+    return content;
+};
+
+const resolveContentSource = async (
+    content: Anthropic.Content,
+    signal?: AbortSignal
+): Promise<Anthropic.Content> =>
+    content.type === "image" ? resolveImageSource(content, signal) : content;
+
+const resolveImageSource = async (
+    image: Anthropic.ImageContent,
+    signal?: AbortSignal
+): Promise<Anthropic.ImageContent> => {
+    if (image.source.type !== "url") {
+        return image;
+    }
+
+    const media = await fetchMedia(image.source.url, signal);
+    if (!media.mimeType.startsWith("image/")) {
+        throw new MediaResolutionError(
+            `Expected an image at ${image.source.url} but got ${media.mimeType}`
+        );
+    }
+
+    return {
+        ...image,
+        source: {
+            type: "base64",
+            // Gemini accepts more image types than Anthropic lists
+            media_type: media.mimeType as "image/png",
+            data: media.data,
+        },
+    };
+};
+
+const mapAnthropicToolResultToGemini = (
+    toolResult: Anthropic.ToolResult,
+    toolNames: Map<string, string>
+): Gemini.Part[] => {
+    const texts: string[] = [];
+    const imageParts: Gemini.InlineDataPart[] = [];
+
+    if (typeof toolResult.content === "string") {
+        texts.push(toolResult.content);
+    } else if (Array.isArray(toolResult.content)) {
+        for (const content of toolResult.content) {
+            if (content.type === "text") {
+                texts.push(content.text);
+            } else if (content.type === "image") {
+                imageParts.push(...mapAnthropicImageToGemini(content));
+            }
+        }
+    }
+
+    const output = texts.join("\n");
+    return mapToolResultToGemini(
+        toolNames.get(toolResult.tool_use_id) ?? "unknown",
+        toolResult.is_error ? {error: output} : {result: output},
+        imageParts,
+    );
+};
+
 const convertAnthropicToolToGemini = (
     tool: Anthropic.Tool
 ): Gemini.FunctionDeclaration => {
@@ -169,40 +481,64 @@ export const mapGeminiResponseToAnthropic = (
     geminiResponse: {
         content?: string;
         reasoning?: string;
+        thoughtSignature?: string;
         tool_calls?: Array<{
             id: string;
             function: { name: string; arguments: string };
         }>;
-        usage?: { inputTokens?: number; outputTokens?: number };
+        finishReason?: string;
+        usage?: Partial<CompletionUsage>;
     },
     model: string,
-    requestId: string
+    requestId: string,
+    stopSequences: string[] = []
 ): Anthropic.MessagesResponse => {
     const content: Anthropic.MessageContent[] = [];
 
-    // Handle reasoning if present
-    if (geminiResponse.reasoning) {
+    let text = geminiResponse.content;
+    let toolCalls = geminiResponse.tool_calls;
+    let stopSequence: string | undefined;
+
+    if (text && stopSequences.length > 0) {
+        const matcher = new StopSequenceMatcher(stopSequences);
+        text = matcher.push(text) + matcher.flush();
+        stopSequence = matcher.matched;
+        if (stopSequence !== undefined) {
+            // Anything produced after the stop sequence is discarded
+            toolCalls = undefined;
+        }
+    }
+
+    // Handle reasoning if present, the signature lets the client send the
+    // thinking block back so it can be re-attached in later turns
+    if (geminiResponse.reasoning || geminiResponse.thoughtSignature) {
         content.push({
-            type: "text",
-            text: `<thinking>\n${geminiResponse.reasoning}\n</thinking>\n\n`,
+            type: "thinking",
+            thinking: geminiResponse.reasoning ?? "",
+            ...(geminiResponse.thoughtSignature && {
+                signature: geminiResponse.thoughtSignature,
+            }),
         });
     }
 
-    if (geminiResponse.content) {
+    if (text) {
         content.push({
             type: "text",
-            text: geminiResponse.content,
+            text,
         });
     }
 
     // Handle tool calls if present
-    if (geminiResponse.tool_calls) {
-        for (const toolCall of geminiResponse.tool_calls) {
+    if (toolCalls) {
+        for (const toolCall of toolCalls) {
             content.push({
                 type: "tool_use",
                 id: toolCall.id,
                 name: toolCall.function.name,
-                input: JSON.parse(toolCall.function.arguments),
+                input: parseToolArguments(
+                    toolCall.function.arguments,
+                    toolCall.function.name
+                ),
             });
         }
     }
@@ -213,13 +549,125 @@ export const mapGeminiResponseToAnthropic = (
         role: "assistant",
         content,
         model,
-        stop_reason:
-            (geminiResponse.tool_calls?.length ?? 0) > 0
-                ? "tool_use"
-                : "end_turn",
-        usage: {
-            input_tokens: geminiResponse.usage?.inputTokens || 0,
-            output_tokens: geminiResponse.usage?.outputTokens || 0,
-        },
+        stop_reason: mapStopReasonToAnthropic(
+            geminiResponse.finishReason,
+            (toolCalls?.length ?? 0) > 0,
+            stopSequence
+        ),
+        ...(stopSequence !== undefined && {stop_sequence: stopSequence}),
+        usage: mapUsageToAnthropic(geminiResponse.usage),
     };
 };
+
+export const mapStopReasonToAnthropic = (
+    finishReason: string | undefined,
+    hasToolUse: boolean,
+    stopSequence?: string
+): Anthropic.MessagesResponse["stop_reason"] => {
+    if (stopSequence !== undefined) {
+        return "stop_sequence";
+    }
+    // Output blocked by Gemini's safety filters
+    if (finishReason === "content_filter") {
+        return "refusal";
+    }
+    if (hasToolUse) {
+        return "tool_use";
+    }
+    if (finishReason === "length") {
+        return "max_tokens";
+    }
+    return "end_turn";
+};
+
+// Gemini counts cached tokens as part of the prompt while Anthropic reports
+// them separately from input_tokens. Thinking is part of Anthropic's
+// output_tokens
+export const mapUsageToAnthropic = (
+    usage?: Partial<CompletionUsage>
+): Anthropic.Usage => {
+    const cachedTokens = usage?.cachedTokens ?? 0;
+
+    return {
+        input_tokens: Math.max((usage?.inputTokens ?? 0) - cachedTokens, 0),
+        output_tokens: (usage?.outputTokens ?? 0) + (usage?.thoughtTokens ?? 0),
+        ...(cachedTokens > 0 && {cache_read_input_tokens: cachedTokens}),
+    };
+};
+
+export const mapStreamUsageToAnthropic = (
+    usage: OpenAI.UsageData
+): Anthropic.Usage =>
+    mapUsageToAnthropic({
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens,
+        thoughtTokens: usage.completion_tokens_details?.reasoning_tokens,
+        cachedTokens: usage.prompt_tokens_details?.cached_tokens,
+    });
+
+// Anthropic reports overload with its own non-standard status code
+const OVERLOADED_STATUS_CODE = 529;
+
+/**
+ * Maps an error thrown while serving a request to an Anthropic error response.
+ * Status codes from Gemini are translated so clients can tell retryable
+ * errors (rate limit, overload) from permanent ones.
+ */
+export const mapErrorToAnthropic = (
+    error: unknown
+): {
+    statusCode: number;
+    error: Anthropic.AnthropicError;
+    retryAfter?: number;
+} => {
+    const message =
+        error instanceof Error ? error.message : "An unknown error occurred";
+    const toError = (
+        statusCode: number,
+        type: Anthropic.AnthropicError["error"]["type"],
+        retryAfter?: number
+    ) => ({
+        statusCode,
+        error: {
+            type: "error" as const,
+            error: {type, message},
+        },
+        ...(retryAfter !== undefined && {retryAfter}),
+    });
+
+    if (error instanceof MediaResolutionError) {
+        return toError(400, "invalid_request_error");
+    }
+
+    if (!(error instanceof GeminiApiError)) {
+        return toError(500, "api_error");
+    }
+
+    const retryAfter =
+        error.retryAfterSeconds ?? DEFAULT_COOLDOWN_MINUTES * 60;
+
+    switch (error.statusCode) {
+        case 400:
+            return toError(400, "invalid_request_error");
+        case 401:
+            return toError(401, "authentication_error");
+        case 403:
+            return toError(403, "permission_error");
+        case 404:
+            return toError(404, "not_found_error");
+        case 429:
+            return toError(429, "rate_limit_error", retryAfter);
+        case 503:
+        case OVERLOADED_STATUS_CODE:
+            return toError(
+                OVERLOADED_STATUS_CODE,
+                "overloaded_error",
+                retryAfter
+            );
+        default:
+            return toError(
+                error.statusCode >= 500 ? error.statusCode : 500,
+                "api_error"
+            );
+    }
+};
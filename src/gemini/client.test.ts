@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { GeminiApiClient, GeminiApiError } from "./client.js";
+import {
+    GeminiApiClient,
+    GeminiApiError,
+    RequestCancelledError,
+} from "./client.js";
 import { OAuth2Client } from "google-auth-library";
 import { OAuthRotator } from "../utils/oauth-rotator.js";
+import * as Gemini from "../types/gemini.js";
 
 // Mock dependencies
 vi.mock("google-auth-library", () => ({
@@ -14,6 +19,26 @@ vi.mock("../utils/oauth-rotator.js", () => ({
     },
 }));
 
+const userRequest = (text: string): Gemini.ChatCompletionRequest => ({
+    model: Gemini.Model.Gemini25Flash,
+    request: {contents: [{role: "user", parts: [{text}]}]},
+});
+
+// An event of the Code Assist streaming API
+const sseData = (response: object) =>
+    `data: ${JSON.stringify({response})}\n\n`;
+
+// Like fetch, fails once the request signal aborts
+const fetchUntilAborted = (_url: string, init: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+        const abort = () =>
+            reject(new DOMException("This operation was aborted", "AbortError"));
+        if (init.signal!.aborted) {
+            abort();
+        }
+        init.signal!.addEventListener("abort", abort);
+    });
+
 describe("GeminiApiClient", () => {
     let mockAuthClient: any;
     let mockOAuthRotator: any;
@@ -181,6 +206,109 @@ describe("GeminiApiClient", () => {
             });
         });
 
+        it("should report thought and cached tokens in usage", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    const encoder = new TextEncoder();
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [
+                                    {content: {parts: [{text: "Hello"}]}},
+                                ],
+                                usageMetadata: {
+                                    promptTokenCount: 100,
+                                    candidatesTokenCount: 5,
+                                    thoughtsTokenCount: 20,
+                                    cachedContentTokenCount: 60,
+                                },
+                            })
+                        )
+                    );
+                    controller.close();
+                },
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            const result = await client.getCompletion(userRequest("Hello"));
+
+            expect(result.usage).toEqual({
+                inputTokens: 100,
+                outputTokens: 5,
+                thoughtTokens: 20,
+                cachedTokens: 60,
+            });
+        });
+
+        it("should include thought tokens in total_tokens", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const streamTotal = async (usageMetadata: object) => {
+                global.fetch = vi.fn().mockResolvedValue({
+                    ok: true,
+                    body: new ReadableStream<Uint8Array>({
+                        start(controller) {
+                            controller.enqueue(
+                                new TextEncoder().encode(
+                                    `data: ${JSON.stringify({
+                                        response: {
+                                            candidates: [
+                                                {
+                                                    content: {
+                                                        parts: [{text: "Hi"}],
+                                                    },
+                                                },
+                                            ],
+                                            usageMetadata,
+                                        },
+                                    })}\n\n`
+                                )
+                            );
+                            controller.close();
+                        },
+                    }),
+                } as unknown as Response);
+
+                let total: number | undefined;
+                for await (const chunk of client.streamContent(userRequest("Hello"))) {
+                    total = chunk.usage?.total_tokens ?? total;
+                }
+                return total;
+            };
+
+            const usage = {
+                promptTokenCount: 100,
+                candidatesTokenCount: 5,
+                thoughtsTokenCount: 20,
+            };
+            expect(await streamTotal(usage)).toBe(125);
+            expect(
+                await streamTotal({...usage, totalTokenCount: 130})
+            ).toBe(130);
+        });
+
         it("should handle API errors", async () => {
             const client = new GeminiApiClient(
                 mockAuthClient,
@@ -205,6 +333,232 @@ describe("GeminiApiClient", () => {
                 } as any)
             ).rejects.toThrow(GeminiApiError);
         });
+
+        it("should aggregate every candidate into choices", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    const encoder = new TextEncoder();
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [
+                                    {
+                                        index: 0,
+                                        content: {parts: [{text: "Red"}]},
+                                    },
+                                    {
+                                        index: 1,
+                                        content: {parts: [{text: "Blue"}]},
+                                        finishReason: "MAX_TOKENS",
+                                    },
+                                ],
+                            })
+                        )
+                    );
+                    controller.close();
+                },
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            const result = await client.getCompletion(userRequest("Color?"));
+
+            expect(result.content).toBe("Red");
+            expect(result.choices).toEqual([
+                {index: 0, content: "Red", finishReason: "stop"},
+                {index: 1, content: "Blue", finishReason: "length"},
+            ]);
+        });
+
+        it("should give parallel tool calls distinct indices", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    const encoder = new TextEncoder();
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [
+                                    {
+                                        content: {
+                                            parts: [
+                                                {
+                                                    functionCall: {
+                                                        name: "get_weather",
+                                                        args: {city: "Paris"},
+                                                    },
+                                                },
+                                            ],
+                                        },
+                                    },
+                                ],
+                            })
+                        )
+                    );
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [
+                                    {
+                                        content: {
+                                            parts: [
+                                                {
+                                                    functionCall: {
+                                                        name: "get_weather",
+                                                        args: {city: "Rome"},
+                                                    },
+                                                },
+                                            ],
+                                        },
+                                        finishReason: "STOP",
+                                    },
+                                ],
+                            })
+                        )
+                    );
+                    controller.close();
+                },
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            const result = await client.getCompletion(userRequest("Weather?"));
+
+            expect(result.finishReason).toBe("tool_calls");
+            expect(result.tool_calls).toHaveLength(2);
+            expect(
+                result.tool_calls!.map((call) => [
+                    call.index,
+                    call.function.arguments,
+                ])
+            ).toEqual([
+                [0, JSON.stringify({city: "Paris"})],
+                [1, JSON.stringify({city: "Rome"})],
+            ]);
+            expect(result.tool_calls![0].id).not.toBe(result.tool_calls![1].id);
+        });
+
+        it("should remember thought signatures by tool call id", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    const encoder = new TextEncoder();
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [
+                                    {
+                                        content: {
+                                            parts: [
+                                                {
+                                                    functionCall: {
+                                                        name: "lookup",
+                                                        args: {},
+                                                    },
+                                                    thoughtSignature: "sig-1",
+                                                },
+                                                {
+                                                    functionCall: {
+                                                        name: "lookup",
+                                                        args: {},
+                                                    },
+                                                },
+                                            ],
+                                        },
+                                    },
+                                ],
+                            })
+                        )
+                    );
+                    controller.close();
+                },
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            const result = await client.getCompletion(userRequest("Look up"));
+
+            const [first, second] = result.tool_calls!;
+            expect(client.thoughtSignatures.get(first.id)).toBe("sig-1");
+            expect(client.thoughtSignatures.get(second.id)).toBeUndefined();
+        });
+    });
+
+    describe("countTokens", () => {
+        it("should call countTokens with system instruction as leading content", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                json: async () => ({totalTokens: 17}),
+            } as Response);
+
+            const result = await client.countTokens({
+                model: Gemini.Model.Gemini25Pro,
+                request: {
+                    systemInstruction: {parts: [{text: "Be brief"}]},
+                    contents: [{role: "user", parts: [{text: "Hello"}]}],
+                },
+            });
+
+            expect(result).toBe(17);
+            const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+            expect(url).toContain(":countTokens");
+            expect(JSON.parse(init?.body as string)).toEqual({
+                request: {
+                    model: "models/gemini-2.5-pro",
+                    contents: [
+                        {role: "user", parts: [{text: "Be brief"}]},
+                        {role: "user", parts: [{text: "Hello"}]},
+                    ],
+                },
+            });
+        });
     });
 
     describe("streamContent", () => {
@@ -255,6 +609,336 @@ describe("GeminiApiClient", () => {
             expect(chunks[0].choices[0].delta.content).toBe("Hello");
         });
 
+        it("should cancel the upstream stream when reading stops early", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            // The stream stays open, as Gemini is still generating
+            const cancel = vi.fn();
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(
+                        new TextEncoder().encode(
+                            sseData({
+                                candidates: [
+                                    {content: {parts: [{text: "Hello"}]}},
+                                ],
+                            })
+                        )
+                    );
+                },
+                cancel,
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            for await (const chunk of client.streamContent(userRequest("Hello"))) {
+                expect(chunk.choices[0].delta.content).toBe("Hello");
+                break;
+            }
+
+            expect(cancel).toHaveBeenCalled();
+        });
+
+        it("should give every stream its own id and assistant role", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            global.fetch = vi.fn().mockImplementation(async () => ({
+                ok: true,
+                body: new ReadableStream<Uint8Array>({
+                    start(controller) {
+                        controller.enqueue(
+                            new TextEncoder().encode(
+                                sseData({
+                                    candidates: [
+                                        {content: {parts: [{text: "Hi"}]}},
+                                    ],
+                                })
+                            )
+                        );
+                        controller.close();
+                    },
+                }),
+            }));
+
+            const streamFirstChunk = async () => {
+                for await (const chunk of client.streamContent(userRequest("Hello"))) {
+                    return chunk;
+                }
+            };
+
+            const [first, second] = await Promise.all([
+                streamFirstChunk(),
+                streamFirstChunk(),
+            ]);
+            expect(first!.id).toMatch(/^chatcmpl-/);
+            expect(second!.id).toMatch(/^chatcmpl-/);
+            expect(first!.id).not.toBe(second!.id);
+            expect(first!.choices[0].delta.role).toBe("assistant");
+            expect(second!.choices[0].delta.role).toBe("assistant");
+        });
+
+        it("should attach usage known so far to every chunk", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    const encoder = new TextEncoder();
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [{content: {parts: [{text: "Hi"}]}}],
+                                usageMetadata: {promptTokenCount: 10},
+                            })
+                        )
+                    );
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                usageMetadata: {
+                                    promptTokenCount: 10,
+                                    candidatesTokenCount: 5,
+                                },
+                            })
+                        )
+                    );
+                    controller.close();
+                },
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            const chunks = [];
+            for await (const chunk of client.streamContent(userRequest("Hello"))) {
+                chunks.push(chunk);
+            }
+
+            expect(chunks[0].usage?.prompt_tokens).toBe(10);
+            expect(chunks[0].usage?.completion_tokens).toBe(0);
+            expect(chunks[chunks.length - 1].usage).toEqual({
+                prompt_tokens: 10,
+                completion_tokens: 5,
+                total_tokens: 15,
+                prompt_tokens_details: {cached_tokens: 0},
+                completion_tokens_details: {reasoning_tokens: 0},
+            });
+        });
+
+        it("should finish with length when Gemini hits MAX_TOKENS", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    const encoder = new TextEncoder();
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [
+                                    {
+                                        content: {parts: [{text: "Trunc"}]},
+                                        finishReason: "MAX_TOKENS",
+                                    },
+                                ],
+                            })
+                        )
+                    );
+                    controller.close();
+                },
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            const result = await client.getCompletion(userRequest("Hello"));
+
+            expect(result.finishReason).toBe("length");
+        });
+
+        it("should finish with content_filter when Gemini blocks output", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    const encoder = new TextEncoder();
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [
+                                    {
+                                        content: {parts: [{text: "Some"}]},
+                                        finishReason: "SAFETY",
+                                    },
+                                ],
+                            })
+                        )
+                    );
+                    controller.close();
+                },
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            const result = await client.getCompletion(userRequest("Hello"));
+
+            expect(result.finishReason).toBe("content_filter");
+        });
+
+        it("should throw a structured error for malformed function calls", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            const mockStream = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    const encoder = new TextEncoder();
+                    controller.enqueue(
+                        encoder.encode(
+                            sseData({
+                                candidates: [
+                                    {
+                                        content: {parts: []},
+                                        finishReason: "MALFORMED_FUNCTION_CALL",
+                                        finishMessage: "Bad call",
+                                    },
+                                ],
+                            })
+                        )
+                    );
+                    controller.close();
+                },
+            });
+
+            global.fetch = vi.fn().mockResolvedValue({
+                ok: true,
+                body: mockStream,
+            } as unknown as Response);
+
+            const error = await client
+                .getCompletion(userRequest("Hello"))
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(GeminiApiError);
+            expect(error.statusCode).toBe(502);
+            expect(JSON.parse(error.responseText).error).toEqual({
+                code: 502,
+                message: "Gemini returned a malformed function call: Bad call",
+                status: "MALFORMED_FUNCTION_CALL",
+            });
+        });
+
+        it("should cancel the Gemini request when the signal aborts", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+
+            global.fetch = vi.fn().mockImplementation(fetchUntilAborted);
+            const cancelledBefore = client.cancelledRequestCount;
+
+            const controller = new AbortController();
+            const completion = client.getCompletion(
+                userRequest("Hello"),
+                0,
+                false,
+                controller.signal
+            );
+            controller.abort();
+
+            await expect(completion).rejects.toThrow(RequestCancelledError);
+            expect(client.cancelledRequestCount).toBe(cancelledBefore + 1);
+        });
+
+        it("should count a cancelled request once across its calls", async () => {
+            const client = new GeminiApiClient(
+                mockAuthClient,
+                "test-project",
+                false
+            );
+
+            mockAuthClient.getAccessToken.mockResolvedValue({
+                token: "test-token",
+            });
+            global.fetch = vi.fn().mockImplementation(fetchUntilAborted);
+            const cancelledBefore = client.cancelledRequestCount;
+
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(
+                client.countTokens(userRequest("Hello"), controller.signal)
+            ).rejects.toThrow(RequestCancelledError);
+            await expect(
+                client.getCompletion(
+                    userRequest("Hello"),
+                    0,
+                    false,
+                    controller.signal
+                )
+            ).rejects.toThrow(RequestCancelledError);
+            expect(client.cancelledRequestCount).toBe(cancelledBefore + 1);
+        });
+
         it("should handle API errors in stream", async () => {
             const client = new GeminiApiClient(
                 mockAuthClient,
@@ -396,6 +1080,35 @@ describe("GeminiApiClient", () => {
             expect(error.name).toBe("GeminiApiError");
         });
 
+        it("should read retryAfterSeconds from RetryInfo details", () => {
+            const error = new GeminiApiError(
+                "Quota exceeded",
+                429,
+                JSON.stringify({
+                    error: {
+                        details: [
+                            {
+                                "@type":
+                                    "type.googleapis.com/google.rpc.RetryInfo",
+                                retryDelay: "30s",
+                            },
+                        ],
+                    },
+                })
+            );
+
+            expect(error.retryAfterSeconds).toBe(30);
+        });
+
+        it("should return undefined retryAfterSeconds without RetryInfo", () => {
+            expect(
+                new GeminiApiError("Error", 429, "not json").retryAfterSeconds
+            ).toBeUndefined();
+            expect(
+                new GeminiApiError("Error", 429).retryAfterSeconds
+            ).toBeUndefined();
+        });
+
         it("should create error without response text", () => {
             const error = new GeminiApiError("Test error", 404);
 
@@ -12,6 +12,8 @@ import {
     AutoModelSwitchingHelper,
     type RetryableRequestData,
 } from "./auto-model-switching.js";
+import {mapFinishReasonToOpenAI} from "./mapper.js";
+import {ThoughtSignatureStore} from "./thought-signature-store.js";
 import { getLogger, Logger } from "../utils/logger.js";
 import { OAuthRotator } from "../utils/oauth-rotator.js";
 import {
@@ -34,8 +36,106 @@ export class GeminiApiError extends Error {
         super(message);
         this.name = "GeminiApiError";
     }
+
+    /**
+     * Seconds to wait before retrying, taken from the RetryInfo detail
+     * Google APIs attach to quota errors
+     */
+    public get retryAfterSeconds(): number | undefined {
+        if (!this.responseText) {
+            return undefined;
+        }
+
+        try {
+            const parsed = JSON.parse(this.responseText);
+            const details: Array<{"@type"?: string; retryDelay?: string}> =
+                parsed.error?.details ?? [];
+            const retryInfo = details.find((detail) =>
+                detail["@type"]?.endsWith("google.rpc.RetryInfo"),
+            );
+            const seconds = parseFloat(retryInfo?.retryDelay ?? "");
+            return Number.isNaN(seconds) ? undefined : Math.ceil(seconds);
+        } catch {
+            return undefined;
+        }
+    }
 }
 
+/**
+ * Thrown when the client of a request disconnected and the upstream Gemini
+ * request was aborted
+ */
+export class RequestCancelledError extends Error {
+    constructor() {
+        super("Request cancelled by the client");
+        this.name = "RequestCancelledError";
+    }
+}
+
+// A request is counted once by its signal, however many of its Gemini calls
+// and media downloads were aborted
+const cancelledSignals = new WeakSet<AbortSignal>();
+let cancelledRequests = 0;
+const cancellationLogger = getLogger("GEMINI-CLIENT", chalk.blue);
+
+/**
+ * Creates the error for a request whose client disconnected and counts the
+ * request as cancelled
+ */
+export const createRequestCancelledError = (
+    signal: AbortSignal,
+): RequestCancelledError => {
+    if (!cancelledSignals.has(signal)) {
+        cancelledSignals.add(signal);
+        cancelledRequests++;
+        cancellationLogger.info(
+            `Client disconnected, cancelled request (${cancelledRequests} cancelled so far)`,
+        );
+    }
+    return new RequestCancelledError();
+};
+
+/**
+ * Token usage of a completion, outputTokens does not include thoughtTokens
+ */
+export type CompletionUsage = {
+    inputTokens: number;
+    outputTokens: number;
+    thoughtTokens?: number;
+    cachedTokens?: number;
+};
+
+/**
+ * One aggregated candidate of a completion
+ */
+export type CompletionChoice = {
+    index: number;
+    content: string;
+    reasoning?: string;
+    thoughtSignature?: string;
+    tool_calls?: OpenAI.ToolCall[];
+    finishReason?: string;
+};
+
+/**
+ * Aggregated completion. The top level fields describe the first candidate,
+ * `choices` holds every candidate when more than one was requested.
+ */
+export type Completion = Omit<CompletionChoice, "index"> & {
+    choices: CompletionChoice[];
+    usage?: CompletionUsage;
+    _autoSwitchNotification?: string;
+};
+
+/**
+ * State of a single streamed completion, shared by all of its chunks
+ */
+type StreamContext = {
+    id: string;
+    created: number;
+    signal?: AbortSignal;
+};
+
 /**
  * Handles communication with Google's Gemini API through the Code Assist endpoint.
  */
@@ -47,21 +147,17 @@ export class GeminiApiClient {
 
     private projectId: string | null = null;
     private projectIdPromise: Promise<string | null> | null = null;
-    private firstChunk: boolean = true;
-    private readonly creationTime: number;
-    private readonly chatID: string;
     private readonly autoSwitcher: AutoModelSwitchingHelper;
     private readonly logger: Logger;
-    private _lastThoughtSignature: string | undefined = undefined;
 
     constructor(
         private readonly authClient: OAuth2Client,
         private readonly googleCloudProject: string | undefined,
         private readonly disableAutoModelSwitch: boolean,
+        public readonly thoughtSignatures: ThoughtSignatureStore =
+        new ThoughtSignatureStore(),
     ) {
         this.googleCloudProject = googleCloudProject;
-        this.chatID = `chat-${crypto.randomUUID()}`;
-        this.creationTime = Math.floor(Date.now() / 1000);
         this.autoSwitcher = AutoModelSwitchingHelper.getInstance();
         this.logger = getLogger("GEMINI-CLIENT", chalk.blue);
 
@@ -69,6 +165,13 @@ export class GeminiApiClient {
         void this.discoverProjectId();
     }
 
+    /**
+     * Number of requests cancelled because their client disconnected
+     */
+    public get cancelledRequestCount(): number {
+        return cancelledRequests;
+    }
+
     /**
      * Increment request count for the current account
      */
@@ -110,10 +213,6 @@ export class GeminiApiClient {
         }
     }
 
-    public get lastThoughtSignature(): string | undefined {
-        return this._lastThoughtSignature;
-    }
-
     /**
      * Reload credentials from disk after OAuth rotation
      * Always triggers token refresh to ensure valid access token
@@ -294,6 +393,7 @@ export class GeminiApiClient {
         method: string,
         body: Record<string, unknown>,
         retryCount: number = 0,
+        signal?: AbortSignal,
     ): Promise<unknown> {
         const { token } = await this.authClient.getAccessToken();
         let response: Response;
@@ -309,12 +409,18 @@ export class GeminiApiClient {
                         Authorization: `Bearer ${token}`,
                     },
                     body: JSON.stringify(body),
-                    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+                    signal: AbortSignal.any([
+                        AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+                        ...(signal ? [signal] : []),
+                    ]),
                     // @ts-ignore - dispatcher is supported in Node.js fetch
                     dispatcher: GeminiApiClient.dispatcher,
                 },
             );
         } catch (error: any) {
+            if (signal?.aborted) {
+                throw createRequestCancelledError(signal);
+            }
             if (error.name === "TimeoutError" || error.name === "AbortError") {
                 throw new GeminiApiError("Request timed out", 408);
             }
@@ -390,6 +496,7 @@ export class GeminiApiClient {
                                 method,
                                 body,
                                 retryCount + 1,
+                                signal,
                             );
                         } catch (retryError) {
                             // If the retry failed, we check if we should continue rotating
@@ -431,6 +538,52 @@ export class GeminiApiClient {
         return response.json();
     }
 
+    /**
+     * Counts the prompt tokens of a request with the Code Assist countTokens method.
+     * The method only accepts contents, so the system instruction and tool
+     * declarations are counted as leading user content.
+     */
+    async countTokens(
+        geminiCompletionRequest: Gemini.ChatCompletionRequest,
+        signal?: AbortSignal,
+    ): Promise<number> {
+        const {request} = geminiCompletionRequest;
+        const contents: Gemini.ChatMessage[] = [];
+
+        if (request.systemInstruction?.parts.length) {
+            contents.push({
+                role: "user",
+                parts: request.systemInstruction.parts,
+            });
+        }
+
+        const functionDeclarations = request.tools?.flatMap(
+            (tool) => tool.functionDeclarations ?? [],
+        );
+        if (functionDeclarations?.length) {
+            contents.push({
+                role: "user",
+                parts: [{text: JSON.stringify(functionDeclarations)}],
+            });
+        }
+
+        contents.push(...request.contents);
+
+        const response = (await this.callEndpoint(
+            "countTokens",
+            {
+                request: {
+                    model: `models/${geminiCompletionRequest.model}`,
+                    contents,
+                },
+            },
+            0,
+            signal,
+        )) as Gemini.CountTokensResponse;
+
+        return response.totalTokens ?? 0;
+    }
+
     /**
      * Get non-streaming completion from Gemini API.
      */
@@ -438,55 +591,81 @@ export class GeminiApiClient {
         geminiCompletionRequest: Gemini.ChatCompletionRequest,
         retryCount: number = 0,
         isExplicitModelRequest: boolean = false,
-    ): Promise<{
-        content: string;
-        reasoning?: string;
-        tool_calls?: OpenAI.ToolCall[];
-        usage?: {
-            inputTokens: number;
-            outputTokens: number;
-        };
-        _autoSwitchNotification?: string;
-    }> {
+        signal?: AbortSignal,
+    ): Promise<Completion> {
         try {
-            const chunks: OpenAI.StreamChunk[] = [];
+            const choices = new Map<number, CompletionChoice>();
+            let usage: CompletionUsage | undefined;
+
             for await (const chunk of this.streamContent(
                 geminiCompletionRequest,
                 retryCount,
                 isExplicitModelRequest,
+                signal,
             )) {
-                chunks.push(chunk);
-            }
-
-            let content = "";
-            let reasoning = "";
-            const tool_calls: OpenAI.ToolCall[] = [];
-            let usage:
-                | { inputTokens: number; outputTokens: number }
-                | undefined;
+                for (const {index, delta, finish_reason} of chunk.choices) {
+                    let choice = choices.get(index);
+                    if (!choice) {
+                        choice = {index, content: ""};
+                        choices.set(index, choice);
+                    }
 
-            for (const chunk of chunks) {
-                if (chunk.choices[0].delta.content) {
-                    content += chunk.choices[0].delta.content;
-                }
-                if (chunk.choices[0].delta.reasoning) {
-                    reasoning += chunk.choices[0].delta.reasoning;
-                }
-                if (chunk.choices[0].delta.tool_calls) {
-                    tool_calls.push(...chunk.choices[0].delta.tool_calls);
+                    if (delta.content) {
+                        choice.content += delta.content;
+                    }
+                    if (delta.reasoning) {
+                        choice.reasoning =
+                            (choice.reasoning ?? "") + delta.reasoning;
+                    }
+                    if (delta.thought_signature) {
+                        choice.thoughtSignature = delta.thought_signature;
+                    }
+                    // Tool call deltas are merged by index, the way OpenAI
+                    // clients rebuild them from a stream
+                    for (const toolCall of delta.tool_calls ?? []) {
+                        choice.tool_calls = choice.tool_calls ?? [];
+                        const existing = choice.tool_calls.find(
+                            (call) => call.index === toolCall.index,
+                        );
+                        if (existing) {
+                            existing.function.arguments +=
+                                toolCall.function.arguments;
+                        } else {
+                            choice.tool_calls.push({
+                                ...toolCall,
+                                function: {...toolCall.function},
+                            });
+                        }
+                    }
+                    if (finish_reason) {
+                        choice.finishReason = finish_reason;
+                    }
                 }
                 if (chunk.usage) {
+                    const cachedTokens =
+                        chunk.usage.prompt_tokens_details?.cached_tokens;
+                    const thoughtTokens =
+                        chunk.usage.completion_tokens_details?.reasoning_tokens;
                     usage = {
                         inputTokens: chunk.usage.prompt_tokens,
                         outputTokens: chunk.usage.completion_tokens,
+                        ...(thoughtTokens && {thoughtTokens}),
+                        ...(cachedTokens && {cachedTokens}),
                     };
                 }
             }
 
+            const sortedChoices = [...choices.values()].sort(
+                (a, b) => a.index - b.index,
+            );
+            const {index: _index, ...first} = sortedChoices[0] ?? {
+                index: 0,
+                content: "",
+            };
+
             return {
-                content,
-                reasoning: reasoning || undefined,
-                tool_calls: tool_calls.length > 0 ? tool_calls : undefined,
+                ...first,
+                choices: sortedChoices,
                 usage,
             };
         } catch (error) {
@@ -512,17 +691,11 @@ export class GeminiApiClient {
                         return await this.getCompletion(
                             updatedRequest,
                             retryCount,
+                            false,
+                            signal,
                         );
                     },
-                )) as Promise<{
-                    content: string;
-                    tool_calls?: OpenAI.ToolCall[];
-                    usage?: {
-                        inputTokens: number;
-                        outputTokens: number;
-                    };
-                    _autoSwitchNotification?: string;
-                }>;
+                )) as Promise<Completion>;
             }
             throw error;
         }
@@ -535,13 +708,28 @@ export class GeminiApiClient {
         geminiCompletionRequest: Gemini.ChatCompletionRequest,
         retryCount: number = 0,
         isExplicitModelRequest: boolean = false,
+        signal?: AbortSignal,
     ): AsyncGenerator<OpenAI.StreamChunk> {
+        const context: StreamContext = {
+            id: `chatcmpl-${crypto.randomUUID()}`,
+            created: Math.floor(Date.now() / 1000),
+            signal,
+        };
+
         try {
             yield* this.streamContentInternal(
                 geminiCompletionRequest,
+                context,
                 retryCount,
             );
         } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                throw error;
+            }
+            // Aborting the fetch or its body fails with a generic AbortError
+            if (signal?.aborted) {
+                throw createRequestCancelledError(signal);
+            }
             if (
                 error instanceof GeminiApiError &&
                 !this.disableAutoModelSwitch &&
@@ -565,15 +753,11 @@ export class GeminiApiClient {
                             ...data,
                             model,
                         } as Gemini.ChatCompletionRequest;
-                        // Create new client instance to reset firstChunk state
-                        const fallbackClient = new GeminiApiClient(
-                            self.authClient,
-                            self.googleCloudProject,
-                            self.disableAutoModelSwitch,
-                        );
-                        yield* fallbackClient.streamContent(
+                        yield* self.streamContent(
                             updatedRequest,
                             retryCount,
+                            false,
+                            signal,
                         );
                     },
                     "openai",
@@ -589,6 +773,7 @@ export class GeminiApiClient {
      */
     private async *streamContentInternal(
         geminiCompletionRequest: Gemini.ChatCompletionRequest,
+        context: StreamContext,
         retryCount: number = 0,
     ): AsyncGenerator<OpenAI.StreamChunk> {
         const { token } = await this.authClient.getAccessToken();
@@ -604,12 +789,18 @@ export class GeminiApiClient {
                         Authorization: `Bearer ${token}`,
                     },
                     body: JSON.stringify(geminiCompletionRequest),
-                    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+                    signal: AbortSignal.any([
+                        AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+                        ...(context.signal ? [context.signal] : []),
+                    ]),
                     // @ts-ignore - dispatcher is supported in Node.js fetch
                     dispatcher: GeminiApiClient.dispatcher,
                 },
             );
         } catch (error: any) {
+            if (context.signal?.aborted) {
+                throw error;
+            }
             if (error.name === "TimeoutError" || error.name === "AbortError") {
                 throw new GeminiApiError("Stream request timed out", 408);
             }
@@ -634,6 +825,7 @@ export class GeminiApiClient {
                 this.authClient.credentials.access_token = undefined;
                 yield* this.streamContentInternal(
                     geminiCompletionRequest,
+                    context,
                     retryCount + 1,
                 );
                 return;
@@ -696,6 +888,7 @@ export class GeminiApiClient {
                         try {
                             yield* this.streamContentInternal(
                                 geminiCompletionRequest,
+                                context,
                                 retryCount + 1,
                             );
                             return;
@@ -738,53 +931,68 @@ export class GeminiApiClient {
             throw new Error("Response has no body");
         }
 
-        let toolCallId: string | undefined = undefined;
-        let usageData: OpenAI.UsageData | undefined;
-        let reasoningTokens = 0;
+        // Several candidates are streamed interleaved when candidateCount > 1
+        const candidateStates = new Map<
+            number,
+            {
+                started: boolean;
+                toolCallCount: number;
+                finishReason?: string;
+                finishMessage?: string;
+            }
+        >();
+        let usageData: OpenAI.UsageData | null = null;
 
         for await (const jsonData of this.parseSSEStream(response.body)) {
-            const candidate = jsonData.response?.candidates?.[0];
+            // Every chunk carries the usage known so far, so consumers that
+            // need the prompt size up front don't have to wait for the end
+            if (jsonData.response?.usageMetadata) {
+                usageData = this.mapUsageMetadata(
+                    jsonData.response.usageMetadata,
+                );
+            }
 
-            if (candidate?.content?.parts) {
-                for (const part of candidate.content.parts as Gemini.Part[]) {
+            for (const candidate of jsonData.response?.candidates ?? []) {
+                const index = candidate.index ?? 0;
+                let state = candidateStates.get(index);
+                if (!state) {
+                    state = {started: false, toolCallCount: 0};
+                    candidateStates.set(index, state);
+                }
+                if (candidate.finishReason) {
+                    state.finishReason = candidate.finishReason;
+                    state.finishMessage = candidate.finishMessage;
+                }
+
+                for (const part of (candidate.content?.parts ??
+                    []) as Gemini.Part[]) {
+                    let delta: OpenAI.StreamDelta;
                     if ("text" in part) {
-                        // Handle text content
-                        if (part.thought === true) {
-                            const delta: OpenAI.StreamDelta = {
-                                reasoning: part.text,
-                            };
-                            if (this.firstChunk) {
-                                delta.role = "assistant";
-                                this.firstChunk = false;
-                            }
-                            yield this.createOpenAIChunk(
-                                delta,
-                                geminiCompletionRequest.model,
-                            );
-                        } else {
-                            // Handle regular content
-                            const delta: OpenAI.StreamDelta = {
-                                content: part.text,
-                            };
-                            if (this.firstChunk) {
-                                delta.role = "assistant";
-                                this.firstChunk = false;
-                            }
-                            yield this.createOpenAIChunk(
-                                delta,
-                                geminiCompletionRequest.model,
-                            );
-                        }
+                        // Handle text content, thoughts are sent as reasoning
+                        delta = {
+                            ...(part.thought === true
+                                ? {reasoning: part.text}
+                                : {content: part.text}),
+                            ...(part.thoughtSignature && {
+                                thought_signature: part.thoughtSignature,
+                            }),
+                        };
+                    } else if ("functionCall" in part) {
+                        // Handle function calls from Gemini, parallel calls
+                        // of a turn are numbered like OpenAI does
+                        const toolCallId = `call_${crypto.randomUUID()}`;
+                        // Clients replay calls without signatures, so they
+                        // are re-attached by tool call id
                         if (part.thoughtSignature) {
-                            this._lastThoughtSignature = part.thoughtSignature;
+                            this.thoughtSignatures.set(
+                                toolCallId,
+                                part.thoughtSignature,
+                            );
                         }
-                    } else if ("functionCall" in part) {
-                        // Handle function calls from Gemini
-                        toolCallId = `call_${crypto.randomUUID()}`;
-                        const delta: OpenAI.StreamDelta = {
+                        delta = {
                             tool_calls: [
                                 {
-                                    index: 0,
+                                    index: state.toolCallCount++,
                                     id: toolCallId,
                                     type: "function",
                                     function: {
@@ -795,95 +1003,135 @@ export class GeminiApiClient {
                                     },
                                 },
                             ],
+                            ...(part.thoughtSignature && {
+                                thought_signature: part.thoughtSignature,
+                            }),
                         };
+                    } else {
+                        continue;
+                    }
 
-                        if (this.firstChunk) {
-                            delta.role = "assistant";
+                    // Each candidate starts with the assistant role
+                    if (!state.started) {
+                        delta.role = "assistant";
+                        if (delta.tool_calls) {
                             delta.content = null;
-                            this.firstChunk = false;
-                        }
-
-                        yield this.createOpenAIChunk(
-                            delta,
-                            geminiCompletionRequest.model,
-                        );
-                        if (part.thoughtSignature) {
-                            this._lastThoughtSignature = part.thoughtSignature;
-                        }
-                    } else if ("functionResponse" in part) {
-                        if (part.thoughtSignature) {
-                            this._lastThoughtSignature = part.thoughtSignature;
                         }
                     }
+                    state.started = true;
+
+                    yield this.createOpenAIChunk(
+                        context,
+                        delta,
+                        geminiCompletionRequest.model,
+                        null,
+                        usageData,
+                        index,
+                    );
                 }
             }
-
-            if (jsonData.response?.usageMetadata) {
-                const usage = jsonData.response.usageMetadata;
-                const prompt_tokens = usage.promptTokenCount ?? 0;
-                const completion_tokens = usage.candidatesTokenCount ?? 0;
-                reasoningTokens = usage.thoughtsTokenCount ?? 0;
-                usageData = {
-                    prompt_tokens,
-                    completion_tokens,
-                    total_tokens: prompt_tokens + completion_tokens,
-                };
-            }
         }
 
-        // Send final chunk with usage data
-        // Fix for Gemini 3 thoughtSignature: when there are tool calls with encrypted
-        // reasoning (thoughtSignature), the model returns 'stop' but expects continuation.
-        // Override to 'tool-calls' so the SDK knows to continue the conversation.
-        let finishReason = toolCallId ? "tool_calls" : "stop";
-        if (
-            toolCallId &&
-            this._lastThoughtSignature &&
-            finishReason === "stop"
-        ) {
-            finishReason = "tool_calls";
+        // The model produced a call that could not be parsed, there is no
+        // finish_reason for this so it is reported as an upstream error
+        const malformed = [...candidateStates.values()].find(
+            (state) => state.finishReason === "MALFORMED_FUNCTION_CALL",
+        );
+        if (malformed) {
+            const message = `Gemini returned a malformed function call${
+                malformed.finishMessage ? `: ${malformed.finishMessage}` : ""
+            }`;
+            throw new GeminiApiError(
+                message,
+                502,
+                JSON.stringify({
+                    error: {
+                        code: 502,
+                        message,
+                        status: "MALFORMED_FUNCTION_CALL",
+                    },
+                }),
+            );
         }
 
+        // Send final chunk with usage data
         const finalChunk = this.createOpenAIChunk(
+            context,
             {},
             geminiCompletionRequest.model,
-            finishReason,
+            null,
+            usageData,
         );
-
-        if (usageData) {
-            finalChunk.usage = usageData;
-            // Include reasoning tokens in usage if available
-            if (reasoningTokens > 0) {
-                finalChunk.usage.completion_tokens += reasoningTokens;
-                finalChunk.usage.total_tokens += reasoningTokens;
-            }
-        }
+        const indices =
+            candidateStates.size > 0 ? [...candidateStates.keys()] : [0];
+        finalChunk.choices = indices
+            .sort((a, b) => a - b)
+            .map((index) => {
+                const state = candidateStates.get(index);
+                return {
+                    index,
+                    delta: {},
+                    finish_reason: mapFinishReasonToOpenAI(
+                        state?.finishReason,
+                        (state?.toolCallCount ?? 0) > 0,
+                    ),
+                    logprobs: null,
+                };
+            });
 
         yield finalChunk;
     }
 
+    /**
+     * Maps Gemini usage metadata to OpenAI usage data.
+     * Thought tokens are reported as reasoning_tokens, completion_tokens
+     * counts the visible output and total_tokens everything that is billed.
+     */
+    private mapUsageMetadata(usage: Gemini.UsageMetadata): OpenAI.UsageData {
+        const prompt_tokens = usage.promptTokenCount ?? 0;
+        const reasoning_tokens = usage.thoughtsTokenCount ?? 0;
+        const completion_tokens = usage.candidatesTokenCount ?? 0;
+
+        return {
+            prompt_tokens,
+            completion_tokens,
+            total_tokens:
+                usage.totalTokenCount ??
+                prompt_tokens + completion_tokens + reasoning_tokens,
+            prompt_tokens_details: {
+                cached_tokens: usage.cachedContentTokenCount ?? 0,
+            },
+            completion_tokens_details: {
+                reasoning_tokens,
+            },
+        };
+    }
+
     /**
      * Creates an OpenAI stream chunk with the given delta
      */
     private createOpenAIChunk(
+        context: StreamContext,
         delta: OpenAI.StreamDelta,
         modelId: string,
         finishReason: string | null = null,
+        usage: OpenAI.UsageData | null = null,
+        index: number = 0,
     ): OpenAI.StreamChunk {
         return {
-            id: this.chatID,
+            id: context.id,
             object: OPENAI_CHAT_COMPLETION_OBJECT,
-            created: this.creationTime,
+            created: context.created,
             model: modelId,
             choices: [
                 {
-                    index: 0,
+                    index,
                     delta,
                     finish_reason: finishReason,
                     logprobs: null,
                 },
             ],
-            usage: null,
+            usage: usage && {...usage},
         };
     }
 
@@ -897,43 +1145,49 @@ export class GeminiApiClient {
         let buffer = "";
         let objectBuffer = "";
 
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) {
-                if (objectBuffer) {
-                    try {
-                        yield JSON.parse(objectBuffer);
-                    } catch (e) {
-                        this.logger.error(
-                            "Error parsing final SSE JSON object",
-                            e,
-                        );
-                    }
-                }
-                break;
-            }
-
-            buffer += value;
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-
-            for (const line of lines) {
-                if (line.trim() === "") {
+        // Consumers stop reading early, e.g. after a stop sequence, which
+        // must cancel the upstream request instead of leaving it open
+        try {
+            while (true) {
+                const {done, value} = await reader.read();
+                if (done) {
                     if (objectBuffer) {
                         try {
                             yield JSON.parse(objectBuffer);
                         } catch (e) {
                             this.logger.error(
-                                "Error parsing SSE JSON object",
+                                "Error parsing final SSE JSON object",
                                 e,
                             );
                         }
-                        objectBuffer = "";
                     }
-                } else if (line.startsWith("data: ")) {
-                    objectBuffer += line.substring(6);
+                    break;
+                }
+
+                buffer += value;
+                const lines = buffer.split("\n");
+                buffer = lines.pop() || "";
+
+                for (const line of lines) {
+                    if (line.trim() === "") {
+                        if (objectBuffer) {
+                            try {
+                                yield JSON.parse(objectBuffer);
+                            } catch (e) {
+                                this.logger.error(
+                                    "Error parsing SSE JSON object",
+                                    e,
+                                );
+                            }
+                            objectBuffer = "";
+                        }
+                    } else if (line.startsWith("data: ")) {
+                        objectBuffer += line.substring(6);
+                    }
                 }
             }
+        } finally {
+            await reader.cancel().catch(() => undefined);
         }
     }
 }
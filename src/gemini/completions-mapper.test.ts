@@ -0,0 +1,59 @@
+import {describe, it, expect} from "vitest";
+import {
+    getCompletionPrompt,
+    mapCompletionRequestToChatCompletion,
+} from "./completions-mapper.js";
+
+describe("getCompletionPrompt", () => {
+    it("should accept a string or a single prompt array", () => {
+        expect(getCompletionPrompt({model: "auto", prompt: "a"})).toBe("a");
+        expect(getCompletionPrompt({model: "auto", prompt: ["b"]})).toBe("b");
+    });
+
+    it("should reject missing and multiple prompts", () => {
+        expect(
+            getCompletionPrompt({model: "auto", prompt: ["a", "b"]}),
+        ).toBeUndefined();
+        expect(
+            getCompletionPrompt({model: "auto"} as never),
+        ).toBeUndefined();
+    });
+});
+
+describe("mapCompletionRequestToChatCompletion", () => {
+    it("should mark the position between prompt and suffix", () => {
+        const result = mapCompletionRequestToChatCompletion({
+            model: "gemini-2.5-flash",
+            prompt: "const add = (a, b) => ",
+            suffix: ";\n",
+            max_tokens: 64,
+            temperature: 0.2,
+            stop: ["\n\n"],
+        });
+
+        expect(result.model).toBe("gemini-2.5-flash");
+        expect(result.messages[0].role).toBe("system");
+        expect(result.messages[1]).toEqual({
+            role: "user",
+            content: "const add = (a, b) => <FILL_HERE>;\n",
+        });
+        expect(result).toMatchObject({
+            max_tokens: 64,
+            temperature: 0.2,
+            stop: ["\n\n"],
+        });
+    });
+
+    it("should ask for a continuation without suffix", () => {
+        const result = mapCompletionRequestToChatCompletion({
+            model: "gemini-2.5-flash",
+            prompt: "Once upon a time",
+        });
+
+        expect(result.messages[0].content).toContain("Continue the text");
+        expect(result.messages[1]).toEqual({
+            role: "user",
+            content: "Once upon a time",
+        });
+    });
+});
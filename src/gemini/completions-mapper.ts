@@ -0,0 +1,58 @@
+import * as OpenAI from "../types/openai.js";
+
+// Marks the position to complete when a suffix follows the cursor
+const FILL_MARKER = "<FILL_HERE>";
+
+const FILL_IN_THE_MIDDLE_INSTRUCTION = `You are a code completion engine. The user message is a document with a ${FILL_MARKER} marker. Output only the text that replaces the marker so that the document reads correctly. Do not repeat text before or after the marker, do not explain and do not wrap the output in Markdown code fences.`;
+
+const CONTINUATION_INSTRUCTION =
+    "You are a code completion engine. Continue the text of the user message from exactly where it ends. Output only the continuation, do not repeat the text, do not explain and do not wrap the output in Markdown code fences.";
+
+/**
+ * Returns the prompt of a legacy completion request. Only a single prompt is
+ * supported, so arrays must hold exactly one.
+ */
+export const getCompletionPrompt = (
+    request: OpenAI.CompletionRequest,
+): string | undefined => {
+    if (typeof request.prompt === "string") {
+        return request.prompt;
+    }
+    return Array.isArray(request.prompt) && request.prompt.length === 1
+        ? request.prompt[0]
+        : undefined;
+};
+
+/**
+ * Maps a legacy completion request onto a chat completion request. Gemini has
+ * no completion mode, so prompt and suffix are turned into a fill-in-the-middle
+ * instruction.
+ */
+export const mapCompletionRequestToChatCompletion = (
+    request: OpenAI.CompletionRequest,
+): OpenAI.ChatCompletionRequest => {
+    const prompt = getCompletionPrompt(request) ?? "";
+    const messages: OpenAI.ChatMessage[] = request.suffix
+        ? [
+            {role: "system", content: FILL_IN_THE_MIDDLE_INSTRUCTION},
+            {
+                role: "user",
+                content: `${prompt}${FILL_MARKER}${request.suffix}`,
+            },
+        ]
+        : [
+            {role: "system", content: CONTINUATION_INSTRUCTION},
+            {role: "user", content: prompt},
+        ];
+
+    return {
+        model: request.model,
+        messages,
+        ...(request.temperature !== undefined && {
+            temperature: request.temperature,
+        }),
+        ...(request.top_p !== undefined && {top_p: request.top_p}),
+        ...(request.max_tokens && {max_tokens: request.max_tokens}),
+        ...(request.stop !== undefined && {stop: request.stop}),
+    };
+};
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { mapModelToGemini, mapJsonSchemaToGemini } from "./mapper.js";
+import {
+    mapModelToGemini,
+    mapJsonSchemaToGemini,
+    mapFinishReasonToOpenAI,
+    mapToolResultToGemini,
+} from "./mapper.js";
 import type { JsonSchema } from "../types/types.js";
 import * as Gemini from "../types/gemini.js";
 
@@ -27,6 +32,51 @@ describe("mapModelToGemini", () => {
     });
 });
 
+describe("mapFinishReasonToOpenAI", () => {
+    it("should map MAX_TOKENS to length", () => {
+        expect(mapFinishReasonToOpenAI("MAX_TOKENS", false)).toBe("length");
+    });
+
+    it("should map filtered candidates to content_filter", () => {
+        for (const reason of ["SAFETY", "RECITATION", "BLOCKLIST"]) {
+            expect(mapFinishReasonToOpenAI(reason, false)).toBe(
+                "content_filter",
+            );
+            expect(mapFinishReasonToOpenAI(reason, true)).toBe(
+                "content_filter",
+            );
+        }
+    });
+
+    it("should prefer tool_calls over stop and length", () => {
+        expect(mapFinishReasonToOpenAI("STOP", true)).toBe("tool_calls");
+        expect(mapFinishReasonToOpenAI("MAX_TOKENS", true)).toBe("tool_calls");
+    });
+
+    it("should default to stop", () => {
+        expect(mapFinishReasonToOpenAI("STOP", false)).toBe("stop");
+        expect(mapFinishReasonToOpenAI(undefined, false)).toBe("stop");
+    });
+});
+
+describe("mapToolResultToGemini", () => {
+    it("should send media as parts after the function response", () => {
+        const image = {inlineData: {mimeType: "image/png", data: "aGk="}};
+
+        expect(
+            mapToolResultToGemini("screenshot", {result: "done"}, [image])
+        ).toEqual([
+            {
+                functionResponse: {
+                    name: "screenshot",
+                    response: {result: "done"},
+                },
+            },
+            image,
+        ]);
+    });
+});
+
 describe("mapJsonSchemaToGemini", () => {
     describe("non-object inputs", () => {
         it("should handle null input", () => {
@@ -17,6 +17,48 @@ export const mapModelToGemini = (model?: string): Gemini.Model => {
     return Gemini.Model.Gemini3ProPreview;
 };
 
+// Candidates stopped by Gemini's safety and content filters
+const CONTENT_FILTER_FINISH_REASONS = new Set([
+    "SAFETY",
+    "RECITATION",
+    "BLOCKLIST",
+    "PROHIBITED_CONTENT",
+    "SPII",
+    "IMAGE_SAFETY",
+]);
+
+/**
+ * Maps the finishReason of a Gemini candidate to an OpenAI finish_reason.
+ * Filtered output is reported as content_filter even if a tool call was
+ * streamed before, otherwise a tool call wins over the remaining reasons.
+ */
+export const mapFinishReasonToOpenAI = (
+    finishReason: string | undefined,
+    hasToolCall: boolean,
+): "stop" | "length" | "tool_calls" | "content_filter" => {
+    if (finishReason && CONTENT_FILTER_FINISH_REASONS.has(finishReason)) {
+        return "content_filter";
+    }
+    if (hasToolCall) {
+        return "tool_calls";
+    }
+    if (finishReason === "MAX_TOKENS") {
+        return "length";
+    }
+    return "stop";
+};
+
+/**
+ * Builds the parts of a tool result. Gemini does not accept inline data
+ * inside a functionResponse, so media returned by a tool is sent as sibling
+ * parts right after the response.
+ */
+export const mapToolResultToGemini = (
+    name: string,
+    response: object,
+    mediaParts: Gemini.InlineDataPart[],
+): Gemini.Part[] => [{functionResponse: {name, response}}, ...mediaParts];
+
 export const mapJsonSchemaToGemini = (
     schema: JsonSchema | unknown,
 ): JsonSchema => {
@@ -0,0 +1,223 @@
+import {describe, it, expect, afterEach, vi} from "vitest";
+import {
+    fetchMedia,
+    isPublicAddress,
+    MediaResolutionError,
+    parseDataUri,
+    sniffMimeType,
+} from "./media-resolver.js";
+import {RequestCancelledError} from "./client.js";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a]);
+const PDF_BYTES = new TextEncoder().encode("%PDF-1.7\n");
+
+describe("sniffMimeType", () => {
+    it("should detect types from their magic bytes", () => {
+        expect(sniffMimeType(PNG_BYTES)).toBe("image/png");
+        expect(sniffMimeType(PDF_BYTES)).toBe("application/pdf");
+        const webp = new TextEncoder().encode("RIFF\0\0\0\0WEBPVP8");
+        expect(sniffMimeType(webp)).toBe("image/webp");
+    });
+
+    it("should return undefined for unknown content", () => {
+        const text = new TextEncoder().encode("hello");
+        expect(sniffMimeType(text)).toBeUndefined();
+    });
+});
+
+describe("parseDataUri", () => {
+    it("should use the declared media type", () => {
+        expect(parseDataUri("data:image/jpeg;base64,AAAA")).toEqual({
+            mimeType: "image/jpeg",
+            data: "AAAA",
+        });
+    });
+
+    it("should sniff the type when none is declared", () => {
+        const data = Buffer.from(PDF_BYTES).toString("base64");
+
+        expect(parseDataUri(`data:;base64,${data}`)).toEqual({
+            mimeType: "application/pdf",
+            data,
+        });
+    });
+
+    it("should ignore URIs that are not base64", () => {
+        expect(parseDataUri("data:text/plain,hello")).toBeUndefined();
+    });
+});
+
+describe("isPublicAddress", () => {
+    it("should accept public addresses", () => {
+        expect(isPublicAddress("93.184.216.34")).toBe(true);
+        expect(isPublicAddress("2606:4700::1111")).toBe(true);
+    });
+
+    it("should reject loopback, private and link-local addresses", () => {
+        for (const address of [
+            "127.0.0.1",
+            "10.1.2.3",
+            "172.16.0.1",
+            "192.168.1.1",
+            "169.254.169.254",
+            "0.0.0.0",
+            "::1",
+            "fd00::1",
+            "fe80::1",
+            "::ffff:7f00:1",
+        ]) {
+            expect(isPublicAddress(address)).toBe(false);
+        }
+    });
+});
+
+describe("fetchMedia", () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it("should download and sniff remote media", async () => {
+        global.fetch = vi.fn().mockResolvedValue(
+            new Response(PNG_BYTES, {
+                headers: {"content-type": "application/octet-stream"},
+            })
+        );
+
+        const media = await fetchMedia("https://example.com/image");
+
+        expect(media).toEqual({
+            mimeType: "image/png",
+            data: Buffer.from(PNG_BYTES).toString("base64"),
+        });
+    });
+
+    it("should fall back to the Content-Type header", async () => {
+        global.fetch = vi.fn().mockResolvedValue(
+            new Response("plain text", {
+                headers: {"content-type": "text/plain; charset=utf-8"},
+            })
+        );
+
+        const media = await fetchMedia("https://example.com/notes.txt");
+
+        expect(media.mimeType).toBe("text/plain");
+    });
+
+    it("should reject media over the size limit", async () => {
+        global.fetch = vi
+            .fn()
+            .mockResolvedValue(new Response(new Uint8Array(16)));
+
+        await expect(
+            fetchMedia("https://example.com/large", undefined, 8)
+        ).rejects.toThrow("exceeds the 8 byte limit");
+    });
+
+    it("should reject failed responses", async () => {
+        global.fetch = vi
+            .fn()
+            .mockResolvedValue(new Response("missing", {status: 404}));
+
+        await expect(
+            fetchMedia("https://example.com/missing")
+        ).rejects.toThrow(MediaResolutionError);
+    });
+
+    it("should reject downloads that time out while reading", async () => {
+        // The body stalls after the first bytes until the timeout fires
+        global.fetch = vi.fn().mockResolvedValue(
+            new Response(
+                new ReadableStream<Uint8Array>({
+                    start(controller) {
+                        controller.enqueue(new Uint8Array([0x89, 0x50]));
+                    },
+                    pull(controller) {
+                        controller.error(
+                            new DOMException("Timed out", "TimeoutError")
+                        );
+                    },
+                })
+            )
+        );
+
+        await expect(fetchMedia("https://example.com/slow")).rejects.toThrow(
+            new MediaResolutionError(
+                "Fetching media from https://example.com/slow timed out"
+            )
+        );
+    });
+
+    it("should report a cancelled download as cancelled", async () => {
+        const controller = new AbortController();
+        controller.abort();
+        global.fetch = vi
+            .fn()
+            .mockRejectedValue(new DOMException("Aborted", "AbortError"));
+
+        await expect(
+            fetchMedia("https://example.com/image", controller.signal)
+        ).rejects.toThrow(RequestCancelledError);
+    });
+
+    it("should reject unsupported protocols without fetching", async () => {
+        global.fetch = vi.fn();
+
+        await expect(fetchMedia("file:///etc/passwd")).rejects.toThrow(
+            "Unsupported media URL protocol"
+        );
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should reject non-public addresses without fetching", async () => {
+        global.fetch = vi.fn();
+
+        await expect(
+            fetchMedia("http://169.254.169.254/latest/meta-data")
+        ).rejects.toThrow("non-public address 169.254.169.254");
+        await expect(fetchMedia("http://[::1]:8080/image")).rejects.toThrow(
+            "non-public address ::1"
+        );
+        expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should check host names when connecting", async () => {
+        await expect(fetchMedia("http://localhost:8080/image")).rejects.toThrow(
+            "Media host localhost resolves to the non-public address"
+        );
+    });
+
+    it("should follow redirects to public hosts", async () => {
+        global.fetch = vi
+            .fn()
+            .mockResolvedValueOnce(
+                new Response(null, {
+                    status: 302,
+                    headers: {location: "https://cdn.example.com/image"},
+                })
+            )
+            .mockResolvedValueOnce(new Response(PNG_BYTES));
+
+        const media = await fetchMedia("https://example.com/image");
+
+        expect(media.mimeType).toBe("image/png");
+        expect(vi.mocked(global.fetch).mock.calls[1][0]).toEqual(
+            new URL("https://cdn.example.com/image")
+        );
+    });
+
+    it("should reject redirects to non-public addresses", async () => {
+        global.fetch = vi.fn().mockResolvedValue(
+            new Response(null, {
+                status: 302,
+                headers: {location: "http://127.0.0.1/admin"},
+            })
+        );
+
+        await expect(
+            fetchMedia("https://example.com/image")
+        ).rejects.toThrow("non-public address 127.0.0.1");
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+});
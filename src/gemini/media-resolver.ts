@@ -0,0 +1,296 @@
+import {lookup, type LookupAddress} from "node:dns";
+import {BlockList, isIP, type LookupFunction} from "node:net";
+import {Agent} from "undici";
+import {
+    MEDIA_FETCH_MAX_BYTES,
+    MEDIA_FETCH_MAX_REDIRECTS,
+    MEDIA_FETCH_TIMEOUT_MS,
+} from "../utils/constant.js";
+import {createRequestCancelledError} from "./client.js";
+
+/**
+ * Error for media that can't be fetched or decoded, reported to clients as
+ * an invalid request rather than a server error
+ */
+export class MediaResolutionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MediaResolutionError";
+    }
+}
+
+export type ResolvedMedia = {
+    mimeType: string;
+    // Base64 encoded content
+    data: string;
+};
+
+type MagicSignature = {
+    mimeType: string;
+    offset: number;
+    bytes: number[];
+};
+
+// "RIFF" containers are told apart by the format at offset 8
+const MAGIC_SIGNATURES: MagicSignature[] = [
+    {mimeType: "image/png", offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47]},
+    {mimeType: "image/jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff]},
+    {mimeType: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38]},
+    {mimeType: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50]},
+    {mimeType: "application/pdf", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46]},
+    {mimeType: "audio/wav", offset: 8, bytes: [0x57, 0x41, 0x56, 0x45]},
+    {mimeType: "audio/mp3", offset: 0, bytes: [0x49, 0x44, 0x33]},
+    {mimeType: "audio/mp3", offset: 0, bytes: [0xff, 0xfb]},
+    {mimeType: "audio/mp3", offset: 0, bytes: [0xff, 0xf3]},
+    {mimeType: "audio/mp3", offset: 0, bytes: [0xff, 0xf2]},
+    {mimeType: "audio/ogg", offset: 0, bytes: [0x4f, 0x67, 0x67, 0x53]},
+    {mimeType: "audio/flac", offset: 0, bytes: [0x66, 0x4c, 0x61, 0x43]},
+];
+
+// Loopback, private, link-local (cloud metadata services), shared, multicast
+// and reserved ranges. IPv4 ranges also cover IPv4-mapped IPv6 addresses.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 3],
+] as const) {
+    NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+    ["::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+] as const) {
+    NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is reachable on the public internet. Media URLs come
+ * from clients, so the proxy must not fetch from its own network.
+ */
+export const isPublicAddress = (address: string): boolean => {
+    const family = isIP(address);
+    return (
+        family !== 0 &&
+        !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6")
+    );
+};
+
+// Host names are checked when connecting rather than resolved up front, so
+// they can't be pointed at another address between the check and the fetch
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, {...options, all: true}, (error, addresses) => {
+        if (error) {
+            callback(error, []);
+            return;
+        }
+        const blocked = addresses.find(
+            ({address}) => !isPublicAddress(address),
+        );
+        if (blocked) {
+            callback(nonPublicHostError(hostname, blocked.address), []);
+        } else if (options.all) {
+            callback(null, addresses);
+        } else {
+            const [first] = addresses as LookupAddress[];
+            callback(null, first.address, first.family);
+        }
+    });
+};
+
+// Node's fetch is typed against its bundled undici, not the installed one
+const mediaDispatcher = new Agent({
+    connect: {lookup: lookupPublicAddress},
+}) as unknown as RequestInit["dispatcher"];
+
+const nonPublicHostError = (host: string, address: string) =>
+    new MediaResolutionError(
+        `Media host ${host} resolves to the non-public address ${address}`,
+    );
+
+/**
+ * Detects the MIME type of media from its leading bytes
+ */
+export const sniffMimeType = (bytes: Uint8Array): string | undefined =>
+    MAGIC_SIGNATURES.find(({offset, bytes: signature}) =>
+        signature.every((byte, i) => bytes[offset + i] === byte),
+    )?.mimeType;
+
+/**
+ * Decodes a base64 data URI into inline media
+ */
+export const parseDataUri = (uri: string): ResolvedMedia | undefined => {
+    const match = uri.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+    if (!match) {
+        return undefined;
+    }
+
+    const data = match[2];
+    const mimeType =
+        match[1] ?? sniffMimeType(Buffer.from(data.slice(0, 24), "base64"));
+    if (!mimeType) {
+        throw new MediaResolutionError("Unable to detect data URI media type");
+    }
+    return {mimeType, data};
+};
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// The timeout can fire while connecting as well as while reading the body
+const fetchFailedError = (url: string, error: unknown) =>
+    new MediaResolutionError(
+        `Fetching media from ${url} ${
+            error instanceof Error && error.name === "TimeoutError"
+                ? "timed out"
+                : "failed"
+        }`,
+    );
+
+// Only http(s) URLs are fetched, IP addresses are checked right away as they
+// are connected to without a lookup
+const parseMediaUrl = (url: string): URL => {
+    let parsedUrl: URL;
+    try {
+        parsedUrl = new URL(url);
+    } catch {
+        throw new MediaResolutionError(`Invalid media URL: ${url}`);
+    }
+    if (parsedUrl.protocol !== "http:" && parsedUrl.protocol !== "https:") {
+        throw new MediaResolutionError(
+            `Unsupported media URL protocol: ${parsedUrl.protocol}`,
+        );
+    }
+
+    const host = parsedUrl.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (isIP(host) && !isPublicAddress(host)) {
+        throw nonPublicHostError(host, host);
+    }
+    return parsedUrl;
+};
+
+/**
+ * Downloads media from an http(s) or data URL so it can be sent to Gemini as
+ * inline data. The type is sniffed from the content and only falls back to
+ * the Content-Type header, which servers often get wrong. Aborting `signal`
+ * cancels the download with a RequestCancelledError.
+ */
+export const fetchMedia = async (
+    url: string,
+    signal?: AbortSignal,
+    maxBytes: number = MEDIA_FETCH_MAX_BYTES,
+): Promise<ResolvedMedia> => {
+    if (url.startsWith("data:")) {
+        const media = parseDataUri(url);
+        if (!media) {
+            throw new MediaResolutionError(
+                "Only base64 data URIs are supported",
+            );
+        }
+        return media;
+    }
+
+    // Redirects are followed by hand, each target has to pass the checks
+    const fetchSignal = AbortSignal.any([
+        AbortSignal.timeout(MEDIA_FETCH_TIMEOUT_MS),
+        ...(signal ? [signal] : []),
+    ]);
+    let mediaUrl = parseMediaUrl(url);
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+        try {
+            response = await fetch(mediaUrl, {
+                signal: fetchSignal,
+                redirect: "manual",
+                dispatcher: mediaDispatcher,
+            });
+        } catch (error) {
+            if (signal?.aborted) {
+                throw createRequestCancelledError(signal);
+            }
+            if (
+                error instanceof Error &&
+                error.cause instanceof MediaResolutionError
+            ) {
+                throw error.cause;
+            }
+            throw fetchFailedError(url, error);
+        }
+
+        const location = response.headers.get("location");
+        if (!REDIRECT_STATUSES.has(response.status) || !location) {
+            break;
+        }
+        void response.body?.cancel();
+        if (redirects === MEDIA_FETCH_MAX_REDIRECTS) {
+            throw new MediaResolutionError(
+                `Fetching media from ${url} exceeded ${MEDIA_FETCH_MAX_REDIRECTS} redirects`,
+            );
+        }
+        mediaUrl = parseMediaUrl(new URL(location, mediaUrl).href);
+    }
+
+    if (!response.ok || !response.body) {
+        throw new MediaResolutionError(
+            `Fetching media from ${url} failed with status ${response.status}`,
+        );
+    }
+
+    const tooLarge = () =>
+        new MediaResolutionError(
+            `Media at ${url} exceeds the ${maxBytes} byte limit`,
+        );
+    const contentLength = Number(response.headers.get("content-length"));
+    if (contentLength > maxBytes) {
+        void response.body.cancel();
+        throw tooLarge();
+    }
+
+    // Read incrementally so a missing or wrong Content-Length can't make us
+    // buffer an unbounded response
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+    while (true) {
+        const {done, value} = await reader.read().catch((error) => {
+            throw signal?.aborted
+                ? createRequestCancelledError(signal)
+                : fetchFailedError(url, error);
+        });
+        if (done) {
+            break;
+        }
+        size += value.byteLength;
+        if (size > maxBytes) {
+            void reader.cancel();
+            throw tooLarge();
+        }
+        chunks.push(value);
+    }
+
+    const buffer = Buffer.concat(chunks);
+    const headerType = response.headers
+        .get("content-type")
+        ?.split(";")[0]
+        .trim();
+    const mimeType =
+        sniffMimeType(buffer) ||
+        (headerType && headerType !== "application/octet-stream"
+            ? headerType
+            : undefined);
+    if (!mimeType) {
+        throw new MediaResolutionError(
+            `Unable to detect the media type of ${url}`,
+        );
+    }
+
+    return {mimeType, data: buffer.toString("base64")};
+};
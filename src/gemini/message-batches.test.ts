@@ -0,0 +1,221 @@
+import {describe, it, expect, beforeEach, afterEach, vi, type Mock} from "vitest";
+import {promises as fs} from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {MessageBatchManager} from "./message-batches.js";
+import {GeminiApiClient, GeminiApiError} from "./client.js";
+import * as Anthropic from "../types/anthropic.js";
+
+const batchRequest = (customId: string): Anthropic.MessageBatchRequest => ({
+    custom_id: customId,
+    params: {
+        model: "claude-3-5-sonnet-20241022",
+        max_tokens: 100,
+        messages: [{role: "user", content: `Hello from ${customId}`}],
+    },
+});
+
+const readResults = async (
+    manager: MessageBatchManager,
+    batchId: string
+): Promise<Anthropic.MessageBatchIndividualResponse[]> => {
+    const resultsPath = await manager.getResultsPath(batchId);
+    const content = await fs.readFile(resultsPath!, "utf-8");
+    return content
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+};
+
+describe("MessageBatchManager", () => {
+    let dirPath: string;
+    let mockGeminiClient: {discoverProjectId: Mock; getCompletion: Mock};
+    let geminiClient: GeminiApiClient;
+    let manager: MessageBatchManager;
+
+    const waitForEnd = (batchId: string) =>
+        vi.waitFor(async () => {
+            const batch = await manager.retrieve(batchId);
+            expect(batch?.processing_status).toBe("ended");
+        });
+
+    beforeEach(async () => {
+        dirPath = await fs.mkdtemp(path.join(os.tmpdir(), "batches-"));
+        mockGeminiClient = {
+            discoverProjectId: vi.fn().mockResolvedValue("test-project"),
+            getCompletion: vi.fn().mockResolvedValue({
+                content: "Hi",
+                finishReason: "stop",
+                usage: {inputTokens: 5, outputTokens: 1},
+            }),
+        };
+        geminiClient = mockGeminiClient as unknown as GeminiApiClient;
+        manager = new MessageBatchManager(geminiClient, false, dirPath);
+    });
+
+    afterEach(async () => {
+        await fs.rm(dirPath, {recursive: true, force: true});
+    });
+
+    it("should run every request and store the results", async () => {
+        const batch = await manager.create([
+            batchRequest("a"),
+            batchRequest("b"),
+            batchRequest("c"),
+        ]);
+
+        expect(batch.processing_status).toBe("in_progress");
+        expect(batch.request_counts.processing).toBe(3);
+
+        await waitForEnd(batch.id);
+
+        const ended = await manager.retrieve(batch.id);
+        expect(ended?.request_counts).toEqual({
+            processing: 0,
+            succeeded: 3,
+            errored: 0,
+            canceled: 0,
+            expired: 0,
+        });
+        expect(ended?.results_url).toBe(
+            `/v1/messages/batches/${batch.id}/results`
+        );
+
+        const results = await readResults(manager, batch.id);
+        expect(results.map((r) => r.custom_id).sort()).toEqual([
+            "a",
+            "b",
+            "c",
+        ]);
+        expect(results[0].result).toMatchObject({
+            type: "succeeded",
+            message: {
+                type: "message",
+                content: [{type: "text", text: "Hi"}],
+                usage: {input_tokens: 5, output_tokens: 1},
+            },
+        });
+    });
+
+    it("should record failed requests as errored", async () => {
+        mockGeminiClient.getCompletion.mockRejectedValue(
+            new GeminiApiError("Invalid argument", 400)
+        );
+
+        const batch = await manager.create([batchRequest("a")]);
+        await waitForEnd(batch.id);
+
+        const results = await readResults(manager, batch.id);
+        expect(results[0].result).toEqual({
+            type: "errored",
+            error: {
+                type: "error",
+                error: {
+                    type: "invalid_request_error",
+                    message: "Invalid argument",
+                },
+            },
+        });
+    });
+
+    it("should cancel requests that have not started", async () => {
+        let release!: () => void;
+        const blocked = new Promise<void>((resolve) => (release = resolve));
+        mockGeminiClient.getCompletion.mockImplementation(async () => {
+            await blocked;
+            return {content: "Hi"};
+        });
+
+        const batch = await manager.create(
+            ["a", "b", "c", "d"].map(batchRequest)
+        );
+        await vi.waitFor(() =>
+            expect(mockGeminiClient.getCompletion).toHaveBeenCalledTimes(2)
+        );
+
+        const canceling = await manager.cancel(batch.id);
+        expect(canceling?.processing_status).toBe("canceling");
+        expect(canceling?.cancel_initiated_at).not.toBeNull();
+
+        release();
+        await waitForEnd(batch.id);
+
+        const ended = await manager.retrieve(batch.id);
+        expect(ended?.request_counts.succeeded).toBe(2);
+        expect(ended?.request_counts.canceled).toBe(2);
+        expect(mockGeminiClient.getCompletion).toHaveBeenCalledTimes(2);
+    });
+
+    it("should resume unfinished batches from disk", async () => {
+        const batch = await manager.create([batchRequest("a")]);
+        await waitForEnd(batch.id);
+
+        // Simulate a batch interrupted after its first request
+        const batchId = "msgbatch_interrupted";
+        await fs.writeFile(
+            path.join(dirPath, `${batchId}.json`),
+            JSON.stringify({
+                ...batch,
+                id: batchId,
+                processing_status: "in_progress",
+                ended_at: null,
+                results_url: null,
+            })
+        );
+        await fs.writeFile(
+            path.join(dirPath, `${batchId}.requests.jsonl`),
+            [batchRequest("a"), batchRequest("b")]
+                .map((r) => JSON.stringify(r))
+                .join("\n")
+        );
+        await fs.writeFile(
+            path.join(dirPath, `${batchId}.results.jsonl`),
+            JSON.stringify({custom_id: "a", result: {type: "canceled"}}) +
+                "\n"
+        );
+        mockGeminiClient.getCompletion.mockClear();
+
+        const resumed = new MessageBatchManager(
+            geminiClient,
+            false,
+            dirPath
+        );
+        await resumed.resumePendingBatches();
+        manager = resumed;
+        await waitForEnd(batchId);
+
+        expect(mockGeminiClient.getCompletion).toHaveBeenCalledTimes(1);
+        const ended = await resumed.retrieve(batchId);
+        expect(ended?.request_counts).toMatchObject({
+            processing: 0,
+            succeeded: 1,
+            canceled: 1,
+        });
+    });
+
+    it("should list batches newest first with pagination", async () => {
+        const ids: string[] = [];
+        for (const customId of ["a", "b", "c"]) {
+            const batch = await manager.create([batchRequest(customId)]);
+            await waitForEnd(batch.id);
+            ids.unshift(batch.id);
+            // Keep created_at distinct
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+
+        const firstPage = await manager.list({limit: 2});
+        expect(firstPage.data.map((b) => b.id)).toEqual(ids.slice(0, 2));
+        expect(firstPage.has_more).toBe(true);
+
+        const secondPage = await manager.list({
+            limit: 2,
+            afterId: firstPage.last_id!,
+        });
+        expect(secondPage.data.map((b) => b.id)).toEqual([ids[2]]);
+        expect(secondPage.has_more).toBe(false);
+    });
+
+    it("should not find batches with invalid ids", async () => {
+        expect(await manager.retrieve("../secrets")).toBeUndefined();
+    });
+});
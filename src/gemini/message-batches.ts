@@ -0,0 +1,467 @@
+import {promises as fs} from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import * as Anthropic from "../types/anthropic.js";
+import {GeminiApiClient} from "./client.js";
+import {
+    mapAnthropicMessagesRequestToGemini,
+    mapErrorToAnthropic,
+    mapGeminiResponseToAnthropic,
+    resolveAnthropicMediaSources,
+} from "./anthropic-mapper.js";
+import {OAuthRotator} from "../utils/oauth-rotator.js";
+import {getBatchesDirPath} from "../utils/paths.js";
+import {getLogger} from "../utils/logger.js";
+import {
+    BATCH_CONCURRENCY_PER_ACCOUNT,
+    BATCH_EXPIRY_HOURS,
+    BATCH_MAX_CONCURRENCY,
+    BATCH_MAX_RETRIES,
+} from "../utils/constant.js";
+
+const BATCH_ID_PATTERN = /^msgbatch_[A-Za-z0-9-]+$/;
+
+type BatchTask = {
+    batchId: string;
+    request: Anthropic.MessageBatchRequest;
+};
+
+/**
+ * Emulates the Anthropic Message Batches API on top of getCompletion.
+ *
+ * Every batch is kept in the batches directory as three files: the batch
+ * status (<id>.json), the submitted requests (<id>.requests.jsonl) and the
+ * results written so far (<id>.results.jsonl), so unfinished batches can be
+ * picked up again after a restart. Requests from all batches share a single
+ * queue whose concurrency follows the size of the OAuth account pool.
+ */
+export class MessageBatchManager {
+    private logger = getLogger("BATCHES", chalk.cyan);
+    // Batches that still have requests in flight, by id
+    private activeBatches: Map<string, Anthropic.MessageBatch> = new Map();
+    private queue: BatchTask[] = [];
+    private running: number = 0;
+    // Per batch chain of pending file writes, keeps results and status ordered
+    private writes: Map<string, Promise<void>> = new Map();
+
+    constructor(
+        private readonly geminiClient: GeminiApiClient,
+        private readonly enableGoogleSearch: boolean = false,
+        private readonly dirPath: string = getBatchesDirPath(),
+    ) {}
+
+    /**
+     * Stores a new batch and queues its requests
+     */
+    public async create(
+        requests: Anthropic.MessageBatchRequest[],
+    ): Promise<Anthropic.MessageBatch> {
+        const createdAt = new Date();
+        const batch: Anthropic.MessageBatch = {
+            id: `msgbatch_${crypto.randomUUID()}`,
+            type: "message_batch",
+            processing_status: "in_progress",
+            request_counts: {
+                processing: requests.length,
+                succeeded: 0,
+                errored: 0,
+                canceled: 0,
+                expired: 0,
+            },
+            created_at: createdAt.toISOString(),
+            expires_at: new Date(
+                createdAt.getTime() + BATCH_EXPIRY_HOURS * 60 * 60 * 1000,
+            ).toISOString(),
+            ended_at: null,
+            cancel_initiated_at: null,
+            archived_at: null,
+            results_url: null,
+        };
+
+        await fs.mkdir(this.dirPath, {recursive: true});
+        await fs.writeFile(
+            this.getFilePath(batch.id, "requests.jsonl"),
+            toJsonLines(requests),
+        );
+        await fs.writeFile(this.getFilePath(batch.id, "results.jsonl"), "");
+        await this.saveBatch(batch);
+
+        this.logger.info(
+            `batch ${batch.id} created with ${requests.length} requests`,
+        );
+        this.enqueue(batch, requests);
+        return {...batch};
+    }
+
+    /**
+     * Returns a batch by id, or undefined when it doesn't exist
+     */
+    public async retrieve(
+        batchId: string,
+    ): Promise<Anthropic.MessageBatch | undefined> {
+        if (!BATCH_ID_PATTERN.test(batchId)) {
+            return undefined;
+        }
+
+        const active = this.activeBatches.get(batchId);
+        if (active) {
+            return {...active};
+        }
+
+        return this.readJsonFile<Anthropic.MessageBatch>(
+            this.getFilePath(batchId, "json"),
+        );
+    }
+
+    /**
+     * Lists batches, most recently created first
+     */
+    public async list(options: {
+        limit: number;
+        beforeId?: string;
+        afterId?: string;
+    }): Promise<Anthropic.MessageBatchListResponse> {
+        const batches = (await this.readAllBatches()).sort((a, b) =>
+            b.created_at.localeCompare(a.created_at),
+        );
+
+        let start = 0;
+        let end = batches.length;
+        if (options.afterId) {
+            start = batches.findIndex((b) => b.id === options.afterId) + 1;
+        } else if (options.beforeId) {
+            end = Math.max(
+                0,
+                batches.findIndex((b) => b.id === options.beforeId),
+            );
+            start = Math.max(0, end - options.limit);
+        }
+
+        const data = batches.slice(start, Math.min(end, start + options.limit));
+        return {
+            data,
+            has_more: options.beforeId
+                ? start > 0
+                : start + data.length < end,
+            first_id: data[0]?.id ?? null,
+            last_id: data[data.length - 1]?.id ?? null,
+        };
+    }
+
+    /**
+     * Cancels the requests of a batch that haven't started yet. Requests that
+     * are already running are allowed to finish.
+     */
+    public async cancel(
+        batchId: string,
+    ): Promise<Anthropic.MessageBatch | undefined> {
+        const batch = this.activeBatches.get(batchId);
+        if (!batch) {
+            return this.retrieve(batchId);
+        }
+
+        if (batch.processing_status === "in_progress") {
+            batch.processing_status = "canceling";
+            batch.cancel_initiated_at = new Date().toISOString();
+            this.logger.info(`batch ${batchId} canceling`);
+
+            const canceled = this.queue.filter(
+                (task) => task.batchId === batchId,
+            );
+            this.queue = this.queue.filter((task) => task.batchId !== batchId);
+            for (const task of canceled) {
+                await this.recordResult(batch, task.request.custom_id, {
+                    type: "canceled",
+                });
+            }
+            await this.finishIfDone(batch);
+        }
+
+        return {...batch};
+    }
+
+    /**
+     * Returns the path of the JSONL results of an ended batch
+     */
+    public async getResultsPath(batchId: string): Promise<string | undefined> {
+        const batch = await this.retrieve(batchId);
+        if (batch?.processing_status !== "ended") {
+            return undefined;
+        }
+        return this.getFilePath(batchId, "results.jsonl");
+    }
+
+    /**
+     * Queues the remaining requests of batches left unfinished by a previous
+     * run of the server
+     */
+    public async resumePendingBatches(): Promise<void> {
+        for (const batch of await this.readAllBatches()) {
+            if (
+                batch.processing_status === "ended" ||
+                this.activeBatches.has(batch.id)
+            ) {
+                continue;
+            }
+
+            const requests =
+                (await this.readJsonLines<Anthropic.MessageBatchRequest>(
+                    this.getFilePath(batch.id, "requests.jsonl"),
+                )) ?? [];
+            const results =
+                (await this.readJsonLines<Anthropic.MessageBatchIndividualResponse>(
+                    this.getFilePath(batch.id, "results.jsonl"),
+                )) ?? [];
+
+            // Rebuild the counts from the results, the status file may have
+            // been written before the last results were
+            const done = new Set(results.map((r) => r.custom_id));
+            const remaining = requests.filter((r) => !done.has(r.custom_id));
+            batch.request_counts = {
+                processing: remaining.length,
+                succeeded: 0,
+                errored: 0,
+                canceled: 0,
+                expired: 0,
+            };
+            for (const {result} of results) {
+                batch.request_counts[result.type]++;
+            }
+
+            this.logger.info(
+                `resuming batch ${batch.id} with ${remaining.length} requests left`,
+            );
+            if (batch.processing_status === "canceling") {
+                this.activeBatches.set(batch.id, batch);
+                for (const request of remaining) {
+                    await this.recordResult(batch, request.custom_id, {
+                        type: "canceled",
+                    });
+                }
+                await this.finishIfDone(batch);
+            } else {
+                this.enqueue(batch, remaining);
+            }
+        }
+    }
+
+    private enqueue(
+        batch: Anthropic.MessageBatch,
+        requests: Anthropic.MessageBatchRequest[],
+    ): void {
+        this.activeBatches.set(batch.id, batch);
+        for (const request of requests) {
+            this.queue.push({batchId: batch.id, request});
+        }
+
+        if (requests.length === 0) {
+            void this.finishIfDone(batch);
+            return;
+        }
+        this.startTasks();
+    }
+
+    // One request per slot, with a few slots per account so that a single
+    // batch can't exhaust the quota of the whole pool at once
+    private getConcurrency(): number {
+        const rotator = OAuthRotator.getInstance();
+        const accounts = rotator.isRotationEnabled()
+            ? rotator.getAccountCount()
+            : 1;
+        return Math.min(
+            BATCH_MAX_CONCURRENCY,
+            Math.max(1, accounts) * BATCH_CONCURRENCY_PER_ACCOUNT,
+        );
+    }
+
+    private startTasks(): void {
+        while (this.running < this.getConcurrency() && this.queue.length > 0) {
+            const task = this.queue.shift()!;
+            this.running++;
+            void this.processTask(task).finally(() => {
+                this.running--;
+                this.startTasks();
+            });
+        }
+    }
+
+    private async processTask({batchId, request}: BatchTask): Promise<void> {
+        const batch = this.activeBatches.get(batchId);
+        if (!batch) {
+            return;
+        }
+
+        try {
+            const result =
+                Date.now() > Date.parse(batch.expires_at)
+                    ? ({type: "expired"} as const)
+                    : await this.runRequest(request.params);
+            await this.recordResult(batch, request.custom_id, result);
+            await this.finishIfDone(batch);
+        } catch (error) {
+            this.logger.error(
+                `failed to record result of ${request.custom_id} in batch ${batchId}`,
+                error,
+            );
+        }
+    }
+
+    private async runRequest(
+        params: Anthropic.MessagesRequest,
+    ): Promise<Anthropic.MessageBatchResult> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const projectId = await this.geminiClient.discoverProjectId();
+                const geminiRequest = mapAnthropicMessagesRequestToGemini(
+                    projectId ?? undefined,
+                    {
+                        ...params,
+                        messages: await resolveAnthropicMediaSources(
+                            params.messages,
+                        ),
+                    },
+                    this.enableGoogleSearch,
+                );
+                const completion =
+                    await this.geminiClient.getCompletion(geminiRequest);
+
+                return {
+                    type: "succeeded",
+                    message: mapGeminiResponseToAnthropic(
+                        completion,
+                        params.model,
+                        `msg_${crypto.randomUUID()}`,
+                        params.stop_sequences,
+                    ),
+                };
+            } catch (error) {
+                const {error: anthropicError, retryAfter} =
+                    mapErrorToAnthropic(error);
+
+                // Rate limits are retried since the client already rotated
+                // through the pool, other errors are final
+                if (retryAfter === undefined || attempt >= BATCH_MAX_RETRIES) {
+                    return {type: "errored", error: anthropicError};
+                }
+                this.logger.warn(
+                    `batch request rate limited, retrying in ${retryAfter}s`,
+                );
+                await new Promise((resolve) =>
+                    setTimeout(resolve, retryAfter * 1000),
+                );
+            }
+        }
+    }
+
+    private async recordResult(
+        batch: Anthropic.MessageBatch,
+        customId: string,
+        result: Anthropic.MessageBatchResult,
+    ): Promise<void> {
+        batch.request_counts.processing--;
+        batch.request_counts[result.type]++;
+
+        const response: Anthropic.MessageBatchIndividualResponse = {
+            custom_id: customId,
+            result,
+        };
+        await this.queueWrite(batch.id, () =>
+            fs.appendFile(
+                this.getFilePath(batch.id, "results.jsonl"),
+                toJsonLines([response]),
+            ),
+        );
+    }
+
+    private async finishIfDone(batch: Anthropic.MessageBatch): Promise<void> {
+        if (
+            batch.request_counts.processing > 0 ||
+            batch.processing_status === "ended"
+        ) {
+            await this.saveBatch(batch);
+            return;
+        }
+
+        batch.processing_status = "ended";
+        batch.ended_at = new Date().toISOString();
+        batch.results_url = `/v1/messages/batches/${batch.id}/results`;
+        await this.saveBatch(batch);
+        this.activeBatches.delete(batch.id);
+        this.logger.info(`batch ${batch.id} ended`);
+    }
+
+    private async saveBatch(batch: Anthropic.MessageBatch): Promise<void> {
+        const snapshot = JSON.stringify(batch, null, 2);
+        const filePath = this.getFilePath(batch.id, "json");
+
+        // Write through a temporary file so readers never see a partial file
+        await this.queueWrite(batch.id, async () => {
+            await fs.writeFile(`${filePath}.tmp`, snapshot);
+            await fs.rename(`${filePath}.tmp`, filePath);
+        });
+    }
+
+    private queueWrite(
+        batchId: string,
+        write: () => Promise<void>,
+    ): Promise<void> {
+        const next = (this.writes.get(batchId) ?? Promise.resolve()).then(
+            write,
+        );
+        // Keep the chain going after a failed write
+        this.writes.set(
+            batchId,
+            next.catch(() => undefined),
+        );
+        return next;
+    }
+
+    private async readAllBatches(): Promise<Anthropic.MessageBatch[]> {
+        let files: string[];
+        try {
+            files = await fs.readdir(this.dirPath);
+        } catch {
+            return [];
+        }
+
+        const batches: Anthropic.MessageBatch[] = [];
+        for (const file of files) {
+            const batchId = file.slice(0, -".json".length);
+            if (!file.endsWith(".json") || !BATCH_ID_PATTERN.test(batchId)) {
+                continue;
+            }
+            const batch = await this.retrieve(batchId);
+            if (batch) {
+                batches.push(batch);
+            }
+        }
+        return batches;
+    }
+
+    private getFilePath(batchId: string, extension: string): string {
+        return path.join(this.dirPath, `${batchId}.${extension}`);
+    }
+
+    private async readJsonFile<T>(filePath: string): Promise<T | undefined> {
+        try {
+            return JSON.parse(await fs.readFile(filePath, "utf-8")) as T;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async readJsonLines<T>(filePath: string): Promise<T[] | undefined> {
+        try {
+            const content = await fs.readFile(filePath, "utf-8");
+            return content
+                .split("\n")
+                .filter((line) => line.trim())
+                .map((line) => JSON.parse(line) as T);
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+const toJsonLines = (items: unknown[]): string =>
+    items.map((item) => `${JSON.stringify(item)}\n`).join("");
@@ -1,5 +1,15 @@
-import { describe, it, expect } from "vitest";
-import { mapOpenAIChatCompletionRequestToGemini } from "./openai-mapper.js";
+import {describe, it, expect, afterEach, vi} from "vitest";
+import {
+    applyReasoningOutputToDelta,
+    getJsonOutputRefusal,
+    limitToolCalls,
+    mapOpenAIChatCompletionRequestToGemini,
+    mapReasoningToMessage,
+    mapStreamChoiceToLegacyFunctionCall,
+    resolveOpenAIMediaSources,
+} from "./openai-mapper.js";
+import {MediaResolutionError} from "./media-resolver.js";
+import {ThoughtSignatureStore} from "./thought-signature-store.js";
 import * as OpenAI from "../types/openai.js";
 import * as Gemini from "../types/gemini.js";
 
@@ -269,6 +279,21 @@ describe("mapOpenAIChatCompletionRequestToGemini", () => {
         });
     });
 
+    it("should map tool_choice required to ANY mode", () => {
+        const result = mapOpenAIChatCompletionRequestToGemini("test-project", {
+            model: "gemini-2.5-pro",
+            tool_choice: "required",
+            messages: [{role: "user", content: "Test"}],
+        });
+
+        expect(result.request.toolConfig).toEqual({
+            functionCallingConfig: {
+                mode: "ANY",
+                allowedFunctionNames: undefined,
+            },
+        });
+    });
+
     it("should map request with specific tool choice", () => {
         const request: OpenAI.ChatCompletionRequest = {
             model: "gemini-2.5-pro",
@@ -732,6 +757,80 @@ describe("OpenAI tool conversion functions", () => {
 });
 
 describe("OpenAI message mapping functions", () => {
+    it("should merge results of parallel tool calls into one turn", () => {
+        const toolCall = (id: string, name: string): OpenAI.ToolCall => ({
+            index: 0,
+            id,
+            type: "function",
+            function: {name, arguments: "{}"},
+        });
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-pro",
+            messages: [
+                {role: "user", content: "Weather and time?"},
+                {
+                    role: "assistant",
+                    content: "",
+                    tool_calls: [
+                        toolCall("call_1", "get_weather"),
+                        {...toolCall("call_2", "get_time"), index: 1},
+                    ],
+                },
+                {role: "tool", content: "Sunny", tool_call_id: "call_1"},
+                {role: "tool", content: "Noon", tool_call_id: "call_2"},
+                {role: "user", content: "Thanks"},
+            ],
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents.map((c) => c.role)).toEqual([
+            "user",
+            "model",
+            "user",
+        ]);
+        expect(result.request.contents[2].parts).toEqual([
+            {
+                functionResponse: {
+                    name: "get_weather",
+                    response: {result: "Sunny"},
+                },
+            },
+            {
+                functionResponse: {
+                    name: "get_time",
+                    response: {result: "Noon"},
+                },
+            },
+            {text: "Thanks"},
+        ]);
+    });
+
+    it("should merge consecutive messages of the same role", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-pro",
+            messages: [
+                {role: "user", content: "First"},
+                {role: "user", content: "Second"},
+                {role: "assistant", content: "Reply"},
+                {role: "assistant", content: "More"},
+            ],
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents).toEqual([
+            {role: "user", parts: [{text: "First"}, {text: "Second"}]},
+            {role: "model", parts: [{text: "Reply"}, {text: "More"}]},
+        ]);
+    });
+
     it("should handle tool message without previous message", () => {
         const request: OpenAI.ChatCompletionRequest = {
             model: "gemini-2.5-pro",
@@ -802,6 +901,90 @@ describe("OpenAI message mapping functions", () => {
         });
     });
 
+    it("should send images of tool results as sibling parts", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-pro",
+            messages: [
+                {
+                    role: "assistant",
+                    content: "",
+                    tool_calls: [
+                        {
+                            index: 0,
+                            id: "call_123",
+                            type: "function",
+                            function: {name: "screenshot", arguments: "{}"},
+                        },
+                    ],
+                },
+                {
+                    role: "tool",
+                    content: [
+                        {type: "text", text: "Captured"},
+                        {
+                            type: "image_url",
+                            image_url: {url: "data:image/png;base64,iVBORw=="},
+                        },
+                        {type: "text", text: "1280x720"},
+                    ],
+                    tool_call_id: "call_123",
+                },
+            ],
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents[1].parts).toEqual([
+            {
+                functionResponse: {
+                    name: "screenshot",
+                    response: {result: "Captured\n1280x720"},
+                },
+            },
+            {inlineData: {mimeType: "image/png", data: "iVBORw=="}},
+        ]);
+    });
+
+    it("should repair malformed tool call arguments in the history", () => {
+        const request: OpenAI.ChatCompletionRequest = {
+            model: "gemini-2.5-pro",
+            messages: [
+                {
+                    role: "assistant",
+                    content: "",
+                    tool_calls: [
+                        {
+                            index: 0,
+                            id: "call_123",
+                            type: "function",
+                            function: {
+                                name: "write_file",
+                                arguments: "{\"path\": \"a.ts\", \"content\": \"exp",
+                            },
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const result = mapOpenAIChatCompletionRequestToGemini(
+            "test-project",
+            request
+        );
+
+        expect(result.request.contents[0].parts).toEqual([
+            {
+                functionCall: {
+                    name: "write_file",
+                    args: {path: "a.ts", content: "exp"},
+                },
+            },
+        ]);
+    });
+
     it("should handle assistant message with only tool calls (no content)", () => {
         const request: OpenAI.ChatCompletionRequest = {
             model: "gemini-2.5-pro",
@@ -1157,3 +1340,549 @@ describe("reasoning/thinking config mapping", () => {
         expect(result.request.generationConfig?.thinkingConfig).toBeUndefined();
     });
 });
+
+describe("response_format mapping", () => {
+    const messages: OpenAI.ChatMessage[] = [
+        {role: "user", content: "Extract the name"},
+    ];
+
+    it("should map json_object to JSON mime type", () => {
+        const result = mapOpenAIChatCompletionRequestToGemini("test-project", {
+            model: "gemini-2.5-pro",
+            messages,
+            response_format: {type: "json_object"},
+        });
+
+        expect(result.request.generationConfig?.responseMimeType).toBe(
+            "application/json"
+        );
+        expect(result.request.generationConfig?.responseSchema).toBeUndefined();
+    });
+
+    it("should map json_schema to a converted response schema", () => {
+        const result = mapOpenAIChatCompletionRequestToGemini("test-project", {
+            model: "gemini-2.5-pro",
+            messages,
+            response_format: {
+                type: "json_schema",
+                json_schema: {
+                    name: "person",
+                    strict: true,
+                    schema: {
+                        $schema: "http://json-schema.org/draft-07/schema#",
+                        type: "object",
+                        properties: {
+                            name: {type: "string"},
+                            age: {type: ["integer", "null"]},
+                        },
+                        required: ["name"],
+                    },
+                },
+            },
+        });
+
+        expect(result.request.generationConfig).toMatchObject({
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: "object",
+                properties: {
+                    name: {type: "string"},
+                    age: {type: "integer", nullable: true},
+                },
+                required: ["name"],
+            },
+        });
+    });
+
+    it("should leave text format unchanged", () => {
+        const result = mapOpenAIChatCompletionRequestToGemini("test-project", {
+            model: "gemini-2.5-pro",
+            messages,
+            response_format: {type: "text"},
+        });
+
+        expect(result.request.generationConfig?.responseMimeType).toBeUndefined();
+    });
+});
+
+describe("getJsonOutputRefusal", () => {
+    it("should accept valid JSON", () => {
+        expect(
+            getJsonOutputRefusal(JSON.stringify({name: "Ada"}), {
+                type: "json_object",
+            })
+        ).toBeUndefined();
+    });
+
+    it("should refuse invalid JSON", () => {
+        expect(
+            getJsonOutputRefusal("Sure! Here it is", {type: "json_object"})
+        ).toContain("valid JSON");
+    });
+
+    it("should not check text responses", () => {
+        expect(getJsonOutputRefusal("plain", {type: "text"})).toBeUndefined();
+        expect(getJsonOutputRefusal("plain")).toBeUndefined();
+    });
+});
+
+describe("sampling parameter mapping", () => {
+    it("should forward sampling parameters to generationConfig", () => {
+        const result = mapOpenAIChatCompletionRequestToGemini("test-project", {
+            model: "gemini-2.5-pro",
+            messages: [{role: "user", content: "Hello"}],
+            top_p: 0.9,
+            stop: "END",
+            seed: 42,
+            presence_penalty: 0.5,
+            frequency_penalty: -0.5,
+            max_tokens: 50,
+            max_completion_tokens: 100,
+            n: 3,
+        });
+
+        expect(result.request.generationConfig).toEqual({
+            temperature: 1,
+            topP: 0.9,
+            stopSequences: ["END"],
+            seed: 42,
+            presencePenalty: 0.5,
+            frequencyPenalty: -0.5,
+            maxOutputTokens: 100,
+            candidateCount: 3,
+        });
+    });
+
+    it("should keep stop arrays and skip candidateCount for n = 1", () => {
+        const result = mapOpenAIChatCompletionRequestToGemini("test-project", {
+            model: "gemini-2.5-pro",
+            messages: [{role: "user", content: "Hello"}],
+            stop: ["a", "b"],
+            n: 1,
+        });
+
+        expect(result.request.generationConfig?.stopSequences).toEqual([
+            "a",
+            "b",
+        ]);
+        expect(result.request.generationConfig?.candidateCount).toBeUndefined();
+    });
+});
+
+describe("parallel_tool_calls", () => {
+    const toolCall = (index: number): OpenAI.ToolCall => ({
+        index,
+        id: `call_${index}`,
+        type: "function",
+        function: {name: "get_weather", arguments: "{}"},
+    });
+
+    it("should keep only the first tool call", () => {
+        const toolCalls = [toolCall(0), toolCall(1), toolCall(2)];
+
+        expect(limitToolCalls(toolCalls, false)).toEqual([toolCall(0)]);
+        expect(limitToolCalls([toolCall(1)], false)).toBeUndefined();
+        expect(limitToolCalls(toolCalls, true)).toBe(toolCalls);
+        expect(limitToolCalls(toolCalls)).toBe(toolCalls);
+    });
+});
+
+describe("thought signature replay", () => {
+    const toolCall = (index: number, id: string): OpenAI.ToolCall => ({
+        index,
+        id,
+        type: "function",
+        function: {name: "lookup", arguments: "{}"},
+    });
+
+    it("should attach each signature to its own function call", () => {
+        const thoughtSignatures = new ThoughtSignatureStore();
+        thoughtSignatures.set("call_a", "sig-a");
+        thoughtSignatures.set("call_c", "sig-c");
+
+        const result = mapOpenAIChatCompletionRequestToGemini(
+            "test-project",
+            {
+                model: "gemini-3-pro-preview",
+                messages: [
+                    {role: "user", content: "Look up"},
+                    {
+                        role: "assistant",
+                        content: "",
+                        tool_calls: [
+                            toolCall(0, "call_a"),
+                            toolCall(1, "call_b"),
+                        ],
+                    },
+                    {role: "tool", content: "A", tool_call_id: "call_a"},
+                    {role: "tool", content: "B", tool_call_id: "call_b"},
+                    {
+                        role: "assistant",
+                        content: "",
+                        tool_calls: [toolCall(0, "call_c")],
+                    },
+                    {role: "tool", content: "C", tool_call_id: "call_c"},
+                ],
+            },
+            false,
+            thoughtSignatures
+        );
+
+        const contents = result.request.contents;
+        expect(contents[1].parts).toEqual([
+            {
+                functionCall: {name: "lookup", args: {}},
+                thoughtSignature: "sig-a",
+            },
+            {functionCall: {name: "lookup", args: {}}},
+        ]);
+        expect(contents[3].parts).toEqual([
+            {
+                functionCall: {name: "lookup", args: {}},
+                thoughtSignature: "sig-c",
+            },
+        ]);
+        // Function responses never carry signatures
+        expect(
+            contents[2].parts.every((part) => !("thoughtSignature" in part))
+        ).toBe(true);
+    });
+
+    it("should attach the signature of a text turn of the same conversation", () => {
+        const thoughtSignatures = new ThoughtSignatureStore();
+        thoughtSignatures.setForConversation(
+            [
+                {role: "user", content: "Hi"},
+                {role: "assistant", content: "Hello"},
+            ],
+            "sig-text"
+        );
+        const request = (firstMessage: string) =>
+            mapOpenAIChatCompletionRequestToGemini(
+                "test-project",
+                {
+                    model: "gemini-3-pro-preview",
+                    messages: [
+                        {role: "user", content: firstMessage},
+                        {role: "assistant", content: "Hello"},
+                        {role: "user", content: "How are you?"},
+                    ],
+                },
+                false,
+                thoughtSignatures
+            );
+
+        expect(request("Hi").request.contents[1].parts).toEqual([
+            {text: "Hello", thoughtSignature: "sig-text"},
+        ]);
+        expect(request("Hey").request.contents[1].parts).toEqual([
+            {text: "Hello"},
+        ]);
+    });
+});
+
+describe("reasoning output", () => {
+    it("should return reasoning in the field of the mode", () => {
+        expect(
+            mapReasoningToMessage("Answer", "Thoughts", "reasoning_content")
+        ).toEqual({content: "Answer", reasoning_content: "Thoughts"});
+        expect(mapReasoningToMessage("Answer", "Thoughts", "reasoning")).toEqual(
+            {content: "Answer", reasoning: "Thoughts"}
+        );
+        expect(mapReasoningToMessage("Answer", "Thoughts", "hidden")).toEqual({
+            content: "Answer",
+        });
+    });
+
+    it("should prepend inline thinking tags", () => {
+        expect(mapReasoningToMessage("Answer", "Thoughts", "inline")).toEqual({
+            content: "<thinking>\nThoughts\n</thinking>\n\nAnswer",
+        });
+    });
+
+    it("should rename streamed reasoning", () => {
+        const choice: OpenAI.StreamChoice = {
+            index: 0,
+            delta: {reasoning: "Thoughts"},
+            finish_reason: null,
+        };
+
+        applyReasoningOutputToDelta(choice, "reasoning_content", new Set());
+
+        expect(choice.delta).toEqual({reasoning_content: "Thoughts"});
+    });
+
+    it("should stream inline thinking tags around the reasoning", () => {
+        const openThinking = new Set<number>();
+        const choices: OpenAI.StreamChoice[] = [
+            {index: 0, delta: {reasoning: "First"}, finish_reason: null},
+            {index: 0, delta: {reasoning: " second"}, finish_reason: null},
+            {index: 0, delta: {content: "Answer"}, finish_reason: null},
+            {index: 0, delta: {}, finish_reason: "stop"},
+        ];
+
+        for (const choice of choices) {
+            applyReasoningOutputToDelta(choice, "inline", openThinking);
+        }
+
+        expect(choices.map((choice) => choice.delta.content)).toEqual([
+            "<thinking>\nFirst",
+            " second",
+            "\n</thinking>\n\nAnswer",
+            undefined,
+        ]);
+        expect(openThinking.size).toBe(0);
+    });
+});
+
+describe("media content parts", () => {
+    const originalFetch = global.fetch;
+    const pngBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    const userMessage = (
+        ...content: OpenAI.MessageContent[]
+    ): OpenAI.ChatMessage[] => [{role: "user", content}];
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it("should inline remote image urls", async () => {
+        global.fetch = vi
+            .fn()
+            .mockImplementation(async () => new Response(pngBytes));
+
+        const messages = await resolveOpenAIMediaSources(
+            userMessage({
+                type: "image_url",
+                image_url: {url: "https://a.test/cat"},
+            })
+        );
+        const result = mapOpenAIChatCompletionRequestToGemini(undefined, {
+            model: "gemini-2.5-pro",
+            messages,
+        });
+
+        expect(result.request.contents[0].parts).toEqual([
+            {inlineData: {mimeType: "image/png", data: "iVBORw=="}},
+        ]);
+    });
+
+    it("should map file and audio parts to inline data", async () => {
+        const messages = await resolveOpenAIMediaSources(
+            userMessage(
+                {
+                    type: "file",
+                    file: {filename: "doc.pdf", file_data: "JVBERi0="},
+                },
+                {
+                    type: "file",
+                    file: {file_data: "data:text/csv;base64,YSxi"},
+                },
+                {
+                    type: "input_audio",
+                    input_audio: {data: "UklGRg==", format: "wav"},
+                }
+            )
+        );
+        const result = mapOpenAIChatCompletionRequestToGemini(undefined, {
+            model: "gemini-2.5-pro",
+            messages,
+        });
+
+        expect(result.request.contents[0].parts).toEqual([
+            {inlineData: {mimeType: "application/pdf", data: "JVBERi0="}},
+            {inlineData: {mimeType: "text/csv", data: "YSxi"}},
+            {inlineData: {mimeType: "audio/wav", data: "UklGRg=="}},
+        ]);
+    });
+
+    it("should reject media that can't be inlined", async () => {
+        const rejected: OpenAI.MessageContent[] = [
+            {type: "file", file: {file_id: "file-123"}},
+            {type: "file", file: {file_data: "AAAA"}},
+            {
+                type: "input_audio",
+                input_audio: {data: "AAAA", format: "flac" as "wav"},
+            },
+        ];
+
+        for (const content of rejected) {
+            await expect(
+                resolveOpenAIMediaSources(userMessage(content))
+            ).rejects.toThrow(MediaResolutionError);
+        }
+    });
+
+    it("should keep refusals as text", async () => {
+        const messages = await resolveOpenAIMediaSources([
+            {
+                role: "assistant",
+                content: [
+                    {type: "refusal", refusal: "I can't help with that."},
+                ],
+            },
+        ]);
+
+        expect(messages[0].content).toEqual([
+            {type: "text", text: "I can't help with that."},
+        ]);
+    });
+
+    it("should reject unknown content part types", async () => {
+        await expect(
+            resolveOpenAIMediaSources(
+                userMessage({type: "video_url" as "text", text: "clip"})
+            )
+        ).rejects.toThrow("Unsupported content part type: video_url");
+    });
+});
+
+describe("legacy functions", () => {
+    const declaration = {
+        name: "get_weather",
+        description: "Weather",
+        parameters: {type: "object"},
+    };
+
+    it("should map functions and function_call to tools", () => {
+        const result = mapOpenAIChatCompletionRequestToGemini(undefined, {
+            model: "gemini-2.5-pro",
+            messages: [{role: "user", content: "Weather?"}],
+            functions: [declaration],
+            function_call: {name: "get_weather"},
+        });
+
+        expect(result.request.tools).toEqual([
+            {functionDeclarations: [declaration]},
+        ]);
+        expect(result.request.toolConfig).toEqual({
+            functionCallingConfig: {
+                mode: "ANY",
+                allowedFunctionNames: ["get_weather"],
+            },
+        });
+        expect(result.request.systemInstruction).toBeUndefined();
+    });
+
+    it("should map legacy calls and results in the history", () => {
+        const messages: OpenAI.ChatMessage[] = [
+            {role: "user", content: "Weather?"},
+            {
+                role: "assistant",
+                content: "",
+                function_call: {
+                    name: "get_weather",
+                    arguments: JSON.stringify({city: "Oslo"}),
+                },
+            },
+            {role: "function", name: "get_weather", content: "Rainy"},
+        ];
+        const thoughtSignatures = new ThoughtSignatureStore();
+        thoughtSignatures.setForConversation(messages.slice(0, 2), "sig-call");
+
+        const result = mapOpenAIChatCompletionRequestToGemini(
+            undefined,
+            {model: "gemini-2.5-pro", messages, functions: [declaration]},
+            false,
+            thoughtSignatures
+        );
+
+        expect(result.request.contents.slice(1)).toEqual([
+            {
+                role: "model",
+                parts: [
+                    {
+                        functionCall: {
+                            name: "get_weather",
+                            args: {city: "Oslo"},
+                        },
+                        thoughtSignature: "sig-call",
+                    },
+                ],
+            },
+            {
+                role: "user",
+                parts: [
+                    {
+                        functionResponse: {
+                            name: "get_weather",
+                            response: {result: "Rainy"},
+                        },
+                    },
+                ],
+            },
+        ]);
+    });
+
+    it("should sign text turns that follow legacy messages", () => {
+        const messages: OpenAI.ChatMessage[] = [
+            {role: "user", content: "Weather?"},
+            {
+                role: "assistant",
+                content: "",
+                function_call: {name: "get_weather", arguments: "{}"},
+            },
+            {role: "function", name: "get_weather", content: "Rainy"},
+            {role: "assistant", content: "It rains."},
+        ];
+        const thoughtSignatures = new ThoughtSignatureStore();
+        thoughtSignatures.setForConversation(messages, "sig-text");
+
+        const result = mapOpenAIChatCompletionRequestToGemini(
+            undefined,
+            {model: "gemini-2.5-pro", messages, functions: [declaration]},
+            false,
+            thoughtSignatures
+        );
+
+        expect(result.request.contents.at(-1)).toEqual({
+            role: "model",
+            parts: [{text: "It rains.", thoughtSignature: "sig-text"}],
+        });
+    });
+
+    it("should keep the name of results without a matching call", () => {
+        const result = mapOpenAIChatCompletionRequestToGemini(undefined, {
+            model: "gemini-2.5-pro",
+            messages: [
+                {role: "user", content: "Weather?"},
+                {role: "function", name: "get_weather", content: "Rainy"},
+            ],
+            functions: [declaration],
+        });
+
+        expect(result.request.contents.at(-1)?.parts.at(-1)).toEqual({
+            functionResponse: {
+                name: "get_weather",
+                response: {result: "Rainy"},
+            },
+        });
+    });
+
+    it("should turn streamed tool calls into a function_call", () => {
+        const choice: OpenAI.StreamChoice = {
+            index: 0,
+            delta: {
+                tool_calls: [
+                    {
+                        index: 0,
+                        id: "call_1",
+                        type: "function",
+                        function: {name: "get_weather", arguments: "{}"},
+                    },
+                ],
+            },
+            finish_reason: "tool_calls",
+        };
+
+        mapStreamChoiceToLegacyFunctionCall(choice);
+
+        expect(choice).toEqual({
+            index: 0,
+            delta: {
+                function_call: {name: "get_weather", arguments: "{}"},
+            },
+            finish_reason: "function_call",
+        });
+    });
+});
@@ -1,27 +1,64 @@
 import * as OpenAI from "../types/openai.js";
 import * as Gemini from "../types/gemini.js";
 import { DEFAULT_TEMPERATURE } from "../utils/constant.js";
-import { mapModelToGemini, mapJsonSchemaToGemini } from "./mapper.js";
+import {
+    mapModelToGemini,
+    mapJsonSchemaToGemini,
+    mapToolResultToGemini,
+} from "./mapper.js";
+import {
+    fetchMedia,
+    MediaResolutionError,
+    parseDataUri,
+    sniffMimeType,
+} from "./media-resolver.js";
+import {
+    getConversationKeys,
+    ThoughtSignatureStore,
+} from "./thought-signature-store.js";
+import {parseToolArguments} from "./tool-arguments.js";
 
 export const mapOpenAIChatCompletionRequestToGemini = (
     project: string | undefined,
-    request: OpenAI.ChatCompletionRequest,
+    chatRequest: OpenAI.ChatCompletionRequest,
     enableGoogleSearch: boolean = false,
-    lastThoughtSignature?: string // Add lastThoughtSignature parameter
+    thoughtSignatures?: ThoughtSignatureStore
 ): Gemini.ChatCompletionRequest => {
+    const request = mapLegacyFunctionsToTools(chatRequest);
     const model = mapModelToGemini(request.model);
     const messages = request.messages ?? [];
     const messagesWithoutSystem = messages.filter(
         (message) => !isSystemMessage(message)
     );
+    // Signatures are stored under the messages as the client sent them, so
+    // the keys are built before legacy functions are mapped
+    const conversationMessages = (chatRequest.messages ?? []).filter(
+        (message) => !isSystemMessage(message),
+    );
+    // max_completion_tokens replaces the deprecated max_tokens
+    const maxOutputTokens = request.max_completion_tokens ?? request.max_tokens;
+    const stopSequences =
+        typeof request.stop === "string" ? [request.stop] : request.stop;
     const geminiRequest: Gemini.ChatCompletionRequestBody = {
         contents: mapOpenAIMessagesToGeminiFormat(
             messagesWithoutSystem,
-            lastThoughtSignature
-        ), // Pass lastThoughtSignature
+            conversationMessages,
+            thoughtSignatures,
+        ),
         generationConfig: {
             temperature: request.temperature ?? DEFAULT_TEMPERATURE,
-            ...(request.max_tokens && { maxOutputTokens: request.max_tokens }),
+            ...(maxOutputTokens && {maxOutputTokens}),
+            ...(request.top_p !== undefined && {topP: request.top_p}),
+            ...(stopSequences?.length && {stopSequences}),
+            ...(request.seed !== undefined && {seed: request.seed}),
+            ...(request.presence_penalty !== undefined && {
+                presencePenalty: request.presence_penalty,
+            }),
+            ...(request.frequency_penalty !== undefined && {
+                frequencyPenalty: request.frequency_penalty,
+            }),
+            ...(request.n !== undefined &&
+                request.n > 1 && {candidateCount: request.n}),
         },
     };
 
@@ -59,6 +96,13 @@ export const mapOpenAIChatCompletionRequestToGemini = (
         };
     }
 
+    if (request.response_format) {
+        geminiRequest.generationConfig = {
+            ...geminiRequest.generationConfig,
+            ...mapResponseFormatToGemini(request.response_format),
+        };
+    }
+
     return {
         model,
         ...(project && { project }),
@@ -66,6 +110,254 @@ export const mapOpenAIChatCompletionRequestToGemini = (
     };
 };
 
+/**
+ * Whether the request declares its functions with the deprecated functions
+ * field, whose clients expect function_call instead of tool_calls back
+ */
+export const usesLegacyFunctions = (
+    request: OpenAI.ChatCompletionRequest,
+): boolean => Boolean(request.functions?.length && !request.tools?.length);
+
+/**
+ * Rewrites the deprecated functions, function_call and function messages to
+ * tools. Legacy calls have no id, so they are identified by the conversation
+ * up to the call, the key ThoughtSignatureStore.setForConversation stores
+ * their signature under.
+ */
+export const mapLegacyFunctionsToTools = (
+    request: OpenAI.ChatCompletionRequest,
+): OpenAI.ChatCompletionRequest => {
+    const {functions, function_call: functionCall, ...rest} = request;
+    const messages = request.messages ?? [];
+    const hasLegacyMessages = messages.some(
+        (message) => message.function_call || message.role === "function",
+    );
+    if (!functions && !functionCall && !hasLegacyMessages) {
+        return request;
+    }
+
+    const conversationKeys = hasLegacyMessages
+        ? getConversationKeys(messages)
+        : [];
+    // Function results answer the latest call of their function
+    const callIds = new Map<string, string>();
+    const mappedMessages = messages.map(
+        (message, index): OpenAI.ChatMessage => {
+            const {function_call: call, name, ...mapped} = message;
+            if (call) {
+                callIds.set(call.name, conversationKeys[index]);
+                return {
+                    ...mapped,
+                    tool_calls: [
+                        {
+                            index: 0,
+                            id: conversationKeys[index],
+                            type: "function",
+                            function: call,
+                        },
+                    ],
+                };
+            }
+            if (message.role === "function") {
+                // Results without a matching call keep their name so the
+                // function they answer is still known
+                return {
+                    ...mapped,
+                    name,
+                    role: "tool",
+                    tool_call_id: callIds.get(name ?? "") ?? "",
+                };
+            }
+            return message;
+        },
+    );
+
+    const legacy = usesLegacyFunctions(request);
+    return {
+        ...rest,
+        messages: mappedMessages,
+        ...(legacy && {
+            tools: functions?.map((declaration) => ({
+                type: "function" as const,
+                function: declaration,
+            })),
+            // function_call answers carry a single call
+            parallel_tool_calls: false,
+        }),
+        ...(functionCall &&
+            !request.tool_choice && {
+            tool_choice:
+                    typeof functionCall === "object"
+                        ? {
+                            type: "function" as const,
+                            function: {name: functionCall.name},
+                        }
+                        : functionCall,
+        }),
+    };
+};
+
+/**
+ * Replaces the tool calls of a streamed choice with the function_call of the
+ * deprecated functions API
+ */
+export const mapStreamChoiceToLegacyFunctionCall = (
+    choice: OpenAI.StreamChoice,
+): void => {
+    const {tool_calls: toolCalls, ...delta} = choice.delta;
+    if (toolCalls?.length) {
+        choice.delta = {...delta, function_call: toolCalls[0].function};
+    }
+    if (choice.finish_reason === "tool_calls") {
+        choice.finish_reason = "function_call";
+    }
+};
+
+/**
+ * Drops every tool call after the first one when parallel_tool_calls is
+ * false, Gemini has no switch for parallel function calling. Works on whole
+ * completions as well as on streamed deltas, since tool call indices are
+ * kept across chunks.
+ */
+export const limitToolCalls = (
+    toolCalls: OpenAI.ToolCall[] | undefined,
+    parallelToolCalls?: boolean,
+): OpenAI.ToolCall[] | undefined => {
+    if (parallelToolCalls !== false || !toolCalls) {
+        return toolCalls;
+    }
+    const firstToolCall = toolCalls.filter((toolCall) => toolCall.index === 0);
+    return firstToolCall.length > 0 ? firstToolCall : undefined;
+};
+
+export const REASONING_OUTPUT_MODES: OpenAI.ReasoningOutputMode[] = [
+    "reasoning_content",
+    "reasoning",
+    "inline",
+    "hidden",
+];
+
+export const parseReasoningOutputMode = (
+    value: unknown,
+): OpenAI.ReasoningOutputMode | undefined =>
+    REASONING_OUTPUT_MODES.find((mode) => mode === value);
+
+const THINKING_OPEN_TAG = "<thinking>\n";
+const THINKING_CLOSE_TAG = "\n</thinking>\n\n";
+
+/**
+ * Returns the content and reasoning fields of a non-streamed message for the
+ * given reasoning output mode
+ */
+export const mapReasoningToMessage = (
+    content: string | null,
+    reasoning: string | undefined,
+    mode: OpenAI.ReasoningOutputMode,
+): Pick<
+    OpenAI.ChatCompletionMessage,
+    "content" | "reasoning_content" | "reasoning"
+> => {
+    if (!reasoning || mode === "hidden") {
+        return {content};
+    }
+    switch (mode) {
+        case "reasoning_content":
+            return {content, reasoning_content: reasoning};
+        case "reasoning":
+            return {content, reasoning};
+        default:
+            // "inline", hidden reasoning was returned above
+            return {
+                content: `${THINKING_OPEN_TAG}${reasoning}${THINKING_CLOSE_TAG}${
+                    content ?? ""
+                }`,
+            };
+    }
+};
+
+/**
+ * Moves the reasoning of a streamed choice to where the reasoning output mode
+ * expects it. Inline mode opens a <thinking> tag with the first reasoning
+ * delta and closes it with the next content, tool call or finish reason,
+ * `openThinking` holds the choices with an unclosed tag. The thought
+ * signature is only used by the proxy and is removed from the delta.
+ */
+export const applyReasoningOutputToDelta = (
+    choice: OpenAI.StreamChoice,
+    mode: OpenAI.ReasoningOutputMode,
+    openThinking: Set<number>,
+): void => {
+    const {reasoning, thought_signature: _thoughtSignature, ...rest} =
+        choice.delta;
+    const delta: OpenAI.StreamDelta = rest;
+    choice.delta = delta;
+
+    if (mode === "reasoning_content" && reasoning) {
+        delta.reasoning_content = reasoning;
+    } else if (mode === "reasoning" && reasoning) {
+        delta.reasoning = reasoning;
+    } else if (mode === "inline") {
+        let prefix = "";
+        if (reasoning) {
+            if (!openThinking.has(choice.index)) {
+                openThinking.add(choice.index);
+                prefix = THINKING_OPEN_TAG;
+            }
+            prefix += reasoning;
+        }
+        if (
+            openThinking.has(choice.index) &&
+            (delta.content ||
+                delta.tool_calls?.length ||
+                choice.finish_reason)
+        ) {
+            openThinking.delete(choice.index);
+            prefix += THINKING_CLOSE_TAG;
+        }
+        if (prefix) {
+            delta.content = prefix + (delta.content ?? "");
+        }
+    }
+};
+
+const mapResponseFormatToGemini = (
+    responseFormat: OpenAI.ResponseFormat,
+): Gemini.ChatCompletionRequestBody["generationConfig"] => {
+    if (responseFormat.type === "json_object") {
+        return {responseMimeType: "application/json"};
+    }
+
+    if (responseFormat.type === "json_schema") {
+        const {schema} = responseFormat.json_schema;
+        return {
+            responseMimeType: "application/json",
+            ...(schema && {responseSchema: mapJsonSchemaToGemini(schema)}),
+        };
+    }
+
+    return {};
+};
+
+/**
+ * Checks model output against a JSON response format. Returns the refusal to
+ * report instead of the content when it isn't valid JSON.
+ */
+export const getJsonOutputRefusal = (
+    content: string | null | undefined,
+    responseFormat?: OpenAI.ResponseFormat,
+): string | undefined => {
+    if (!responseFormat || responseFormat.type === "text") {
+        return;
+    }
+
+    try {
+        JSON.parse(content ?? "");
+        return;
+    } catch {
+        return "The model did not produce valid JSON for the requested response_format";
+    }
+};
+
 const mapSystemInstruction = (
     messages: OpenAI.ChatMessage[]
 ): Gemini.SystemInstruction | undefined => {
@@ -114,6 +406,8 @@ const mapToolChoiceToToolConfig = (
         mode = "NONE";
     } else if (toolChoice === "auto") {
         mode = "AUTO";
+    } else if (toolChoice === "required") {
+        mode = "ANY";
     } else if (typeof toolChoice === "object") {
         mode = "ANY";
         allowedFunctionNames = [toolChoice.function.name];
@@ -126,34 +420,40 @@ const isSystemMessage = (message: OpenAI.ChatMessage): boolean =>
 
 const mapOpenAIMessageToGeminiFormat = (
     msg: OpenAI.ChatMessage,
-    prevMsg?: OpenAI.ChatMessage,
-    lastThoughtSignature?: string // Add lastThoughtSignature parameter
+    toolCallNames: Map<string, string>,
+    thoughtSignatures?: ThoughtSignatureStore
 ): Gemini.ChatMessage => {
     const role = msg.role === "assistant" ? "model" : "user";
 
     if (msg.role === "tool") {
-        const originalToolCall = prevMsg?.tool_calls?.find(
-            (tc: OpenAI.ToolCall) => tc.id === msg.tool_call_id
-        );
+        const toolName =
+            toolCallNames.get(msg.tool_call_id ?? "") ?? msg.name ?? "unknown";
+        const texts: string[] = [];
+        const mediaParts: Gemini.InlineDataPart[] = [];
+
+        if (Array.isArray(msg.content)) {
+            for (const content of msg.content) {
+                if (content.type === "text") {
+                    texts.push(content.text ?? "");
+                } else {
+                    mediaParts.push(...mapOpenAIMediaToGemini(content));
+                }
+            }
+        } else {
+            texts.push(
+                typeof msg.content === "string"
+                    ? msg.content
+                    : JSON.stringify(msg.content),
+            );
+        }
 
         return {
             role: "user",
-            parts: [
-                {
-                    functionResponse: {
-                        name: originalToolCall?.function.name ?? "unknown",
-                        response: {
-                            result:
-                                typeof msg.content === "string"
-                                    ? msg.content
-                                    : JSON.stringify(msg.content),
-                        },
-                    },
-                    ...(lastThoughtSignature && {
-                        thoughtSignature: lastThoughtSignature,
-                    }), // Pass back the last thought signature
-                },
-            ],
+            parts: mapToolResultToGemini(
+                toolName,
+                {result: texts.join("\n")},
+                mediaParts,
+            ),
         };
     }
 
@@ -194,14 +494,18 @@ const mapOpenAIMessageToGeminiFormat = (
 
         for (const toolCall of msg.tool_calls) {
             if (toolCall.type === "function") {
-                const functionCallPart: any = {
+                // Only the calls Gemini signed get a signature back, in
+                // parallel calls that is the first one
+                const thoughtSignature = thoughtSignatures?.get(toolCall.id);
+                const functionCallPart: Gemini.FunctionCallPart = {
                     functionCall: {
                         name: toolCall.function.name,
-                        args: JSON.parse(toolCall.function.arguments),
+                        args: parseToolArguments(
+                            toolCall.function.arguments,
+                            toolCall.function.name,
+                        ),
                     },
-                    ...(lastThoughtSignature && {
-                        thoughtSignature: lastThoughtSignature,
-                    }), // Pass back the last thought signature
+                    ...(thoughtSignature && {thoughtSignature}),
                 };
                 parts.push(functionCallPart);
             }
@@ -265,14 +569,8 @@ const mapOpenAIMessageToGeminiFormat = (
                     text += "\n";
                 }
                 parts.push({ text });
-            } else if (content.type === "image_url" && content.image_url) {
-                const imageUrl = content.image_url.url;
-                const match = imageUrl.match(/^data:(image\/.+);base64,(.+)$/);
-                if (match) {
-                    parts.push({
-                        inlineData: { mimeType: match[1], data: match[2] },
-                    });
-                }
+            } else {
+                parts.push(...mapOpenAIMediaToGemini(content));
             }
         }
 
@@ -286,22 +584,199 @@ const mapOpenAIMessageToGeminiFormat = (
     };
 };
 
+const AUDIO_FORMAT_MIME_TYPES: Record<string, string> = {
+    wav: "audio/wav",
+    mp3: "audio/mp3",
+};
+
+// Media is turned into data URIs by resolveOpenAIMediaSources before
+// mapping, anything left that isn't inline data is dropped
+const mapOpenAIMediaToGemini = (
+    content: OpenAI.MessageContent,
+): Gemini.InlineDataPart[] => {
+    let media: {mimeType: string; data: string} | undefined;
+    if (content.type === "image_url" && content.image_url) {
+        media = parseDataUri(content.image_url.url);
+    } else if (content.type === "file" && content.file?.file_data) {
+        media = parseDataUri(content.file.file_data);
+    } else if (content.type === "input_audio" && content.input_audio) {
+        media = {
+            mimeType: AUDIO_FORMAT_MIME_TYPES[content.input_audio.format],
+            data: content.input_audio.data,
+        };
+    }
+    return media ? [{inlineData: media}] : [];
+};
+
+/**
+ * Downloads remote image URLs and checks file and audio parts, so that every
+ * media part can be sent to Gemini as inline data. Throws
+ * MediaResolutionError for media Gemini can't be given.
+ */
+export const resolveOpenAIMediaSources = async (
+    messages: OpenAI.ChatMessage[],
+    signal?: AbortSignal,
+): Promise<OpenAI.ChatMessage[]> =>
+    Promise.all(
+        messages.map(async (message) => {
+            if (!Array.isArray(message.content)) {
+                return message;
+            }
+            return {
+                ...message,
+                content: await Promise.all(
+                    message.content.map((content) =>
+                        resolveContentSource(content, signal),
+                    ),
+                ),
+            };
+        }),
+    );
+
+const resolveContentSource = async (
+    content: OpenAI.MessageContent,
+    signal?: AbortSignal,
+): Promise<OpenAI.MessageContent> => {
+    switch (content.type) {
+        case "text":
+            return content;
+        case "refusal":
+            return {type: "text", text: content.refusal ?? ""};
+        case "image_url":
+            return resolveImageUrl(content, signal);
+        case "file":
+            return resolveFile(content);
+        case "input_audio":
+            if (
+                !content.input_audio?.data ||
+                !AUDIO_FORMAT_MIME_TYPES[content.input_audio.format]
+            ) {
+                throw new MediaResolutionError(
+                    `Unsupported input_audio format: ${content.input_audio?.format}, expected wav or mp3`,
+                );
+            }
+            return content;
+        default:
+            throw new MediaResolutionError(
+                `Unsupported content part type: ${content.type}`,
+            );
+    }
+};
+
+const resolveImageUrl = async (
+    content: OpenAI.MessageContent,
+    signal?: AbortSignal,
+): Promise<OpenAI.MessageContent> => {
+    const url = content.image_url?.url;
+    if (!url) {
+        throw new MediaResolutionError("image_url.url is required");
+    }
+
+    const media = await fetchMedia(url, signal);
+    if (!media.mimeType.startsWith("image/")) {
+        throw new MediaResolutionError(
+            `Expected an image at ${url} but got ${media.mimeType}`,
+        );
+    }
+    return {
+        ...content,
+        image_url: {
+            ...content.image_url,
+            url: `data:${media.mimeType};base64,${media.data}`,
+        },
+    };
+};
+
+const resolveFile = async (
+    content: OpenAI.MessageContent,
+): Promise<OpenAI.MessageContent> => {
+    const fileData = content.file?.file_data;
+    if (!fileData) {
+        throw new MediaResolutionError(
+            content.file?.file_id
+                ? "Uploaded files are not supported, send file_data instead of file_id"
+                : "file.file_data is required",
+        );
+    }
+    if (fileData.startsWith("data:")) {
+        if (!parseDataUri(fileData)) {
+            throw new MediaResolutionError(
+                "Only base64 data URIs are supported",
+            );
+        }
+        return content;
+    }
+
+    // Plain base64 carries no type, so it's read from the content
+    const mimeType = sniffMimeType(
+        Buffer.from(fileData.slice(0, 24), "base64"),
+    );
+    if (!mimeType) {
+        throw new MediaResolutionError(
+            `Unable to detect the media type of ${content.file?.filename ?? "file"}`,
+        );
+    }
+    return {
+        ...content,
+        file: {
+            ...content.file,
+            file_data: `data:${mimeType};base64,${fileData}`,
+        },
+    };
+};
+
 const mapOpenAIMessagesToGeminiFormat = (
     messages: OpenAI.ChatMessage[],
-    lastThoughtSignature?: string // Add lastThoughtSignature parameter
+    conversationMessages: OpenAI.ChatMessage[],
+    thoughtSignatures?: ThoughtSignatureStore
 ): Gemini.ChatMessage[] => {
-    const geminiMessages: Gemini.ChatMessage[] = [];
-    let prevMessage: OpenAI.ChatMessage | undefined = undefined;
+    // Tool results may come several messages after the call they answer,
+    // e.g. the second result of parallel calls
+    const toolCallNames = new Map<string, string>();
     for (const message of messages) {
-        geminiMessages.push(
-            mapOpenAIMessageToGeminiFormat(
-                message,
-                prevMessage,
-                lastThoughtSignature
-            ) // Pass lastThoughtSignature
-        );
-        prevMessage = message;
+        for (const toolCall of message.tool_calls ?? []) {
+            toolCallNames.set(toolCall.id, toolCall.function.name);
+        }
     }
+    const conversationKeys = thoughtSignatures
+        ? getConversationKeys(conversationMessages)
+        : [];
+
+    const geminiMessages: Gemini.ChatMessage[] = [];
+    messages.forEach((message, index) => {
+        const geminiMessage = mapOpenAIMessageToGeminiFormat(
+            message,
+            toolCallNames,
+            thoughtSignatures,
+        );
+
+        // Text turns are signed on their last part
+        const textSignature =
+            message.role === "assistant" && !message.tool_calls?.length
+                ? thoughtSignatures?.get(conversationKeys[index])
+                : undefined;
+        if (textSignature) {
+            const lastPart = geminiMessage.parts.at(-1);
+            if (lastPart && "text" in lastPart) {
+                lastPart.thoughtSignature = textSignature;
+            } else {
+                geminiMessage.parts.push({
+                    text: "",
+                    thoughtSignature: textSignature,
+                });
+            }
+        }
+
+        // Gemini expects user and model turns to alternate, so consecutive
+        // messages of a role, like the results of parallel tool calls, are
+        // sent as a single turn
+        const prevMessage = geminiMessages[geminiMessages.length - 1];
+        if (prevMessage?.role === geminiMessage.role) {
+            prevMessage.parts.push(...geminiMessage.parts);
+        } else {
+            geminiMessages.push(geminiMessage);
+        }
+    });
     return geminiMessages;
 };
 
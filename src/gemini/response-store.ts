@@ -0,0 +1,15 @@
+import * as OpenAI from "../types/openai.js";
+import {RESPONSE_STORE_MAX_ENTRIES} from "../utils/constant.js";
+import {LruCache} from "../utils/lru-cache.js";
+
+/**
+ * Keeps the conversation behind stored Responses API responses, so a request
+ * can continue one through previous_response_id without resending history.
+ * Each response id maps to the conversation up to and including it, the
+ * least recently used responses are dropped once the store is full.
+ */
+export class ResponseStore extends LruCache<string, OpenAI.ChatMessage[]> {
+    constructor(maxEntries: number = RESPONSE_STORE_MAX_ENTRIES) {
+        super(maxEntries);
+    }
+}
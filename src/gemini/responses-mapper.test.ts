@@ -0,0 +1,311 @@
+import {describe, it, expect} from "vitest";
+import {
+    mapResponseInputToChatMessages,
+    mapResponsesRequestToChatCompletion,
+    ResponseStreamBuilder,
+} from "./responses-mapper.js";
+import * as OpenAI from "../types/openai.js";
+
+const createResponse = (): OpenAI.ResponseObject => ({
+    id: "resp_test",
+    object: "response",
+    created_at: 0,
+    status: "in_progress",
+    model: "gemini-2.5-pro",
+    output: [],
+    instructions: null,
+    previous_response_id: null,
+    tools: [],
+    tool_choice: "auto",
+    temperature: null,
+    max_output_tokens: null,
+    reasoning: null,
+    store: true,
+    metadata: {},
+    usage: null,
+    incomplete_details: null,
+    error: null,
+});
+
+const chunk = (
+    delta: OpenAI.StreamDelta,
+    finishReason: string | null = null,
+): OpenAI.StreamChunk => ({
+    id: "chatcmpl-test",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "gemini-2.5-pro",
+    choices: [{index: 0, delta, finish_reason: finishReason}],
+});
+
+describe("mapResponsesRequestToChatCompletion", () => {
+    it("should map instructions, input and tools", () => {
+        const result = mapResponsesRequestToChatCompletion({
+            model: "gemini-2.5-pro",
+            instructions: "Be brief",
+            input: "Hello",
+            max_output_tokens: 100,
+            reasoning: {effort: OpenAI.ReasoningEffort.low},
+            tools: [
+                {
+                    type: "function",
+                    name: "get_weather",
+                    parameters: {type: "object"},
+                },
+            ],
+            tool_choice: {type: "function", name: "get_weather"},
+        });
+
+        expect(result).toEqual({
+            model: "gemini-2.5-pro",
+            messages: [
+                {role: "system", content: "Be brief"},
+                {role: "user", content: "Hello"},
+            ],
+            max_tokens: 100,
+            reasoning_effort: "low",
+            tools: [
+                {
+                    type: "function",
+                    function: {
+                        name: "get_weather",
+                        description: "",
+                        parameters: {type: "object"},
+                    },
+                },
+            ],
+            tool_choice: {
+                type: "function",
+                function: {name: "get_weather"},
+            },
+        });
+    });
+
+    it("should place history between instructions and new input", () => {
+        const result = mapResponsesRequestToChatCompletion(
+            {
+                model: "gemini-2.5-pro",
+                instructions: "Be brief",
+                input: "And now?",
+            },
+            [
+                {role: "user", content: "Hi"},
+                {role: "assistant", content: "Hello"},
+            ],
+        );
+
+        expect(result.messages.map((m) => m.content)).toEqual([
+            "Be brief",
+            "Hi",
+            "Hello",
+            "And now?",
+        ]);
+    });
+});
+
+describe("mapResponseInputToChatMessages", () => {
+    it("should group function calls with reasoning into an assistant turn", () => {
+        const result = mapResponseInputToChatMessages([
+            {
+                role: "user",
+                content: [{type: "input_text", text: "Weather?"}],
+            },
+            {
+                type: "reasoning",
+                summary: [{type: "summary_text", text: "Need tools"}],
+            },
+            {
+                type: "function_call",
+                call_id: "call_1",
+                name: "get_weather",
+                arguments: JSON.stringify({city: "Paris"}),
+            },
+            {
+                type: "function_call",
+                call_id: "call_2",
+                name: "get_weather",
+                arguments: JSON.stringify({city: "Rome"}),
+            },
+            {type: "function_call_output", call_id: "call_1", output: "Sun"},
+        ]);
+
+        expect(result).toEqual([
+            {role: "user", content: "Weather?"},
+            {
+                role: "assistant",
+                content: "",
+                reasoning_content: "Need tools",
+                tool_calls: [
+                    {
+                        index: 0,
+                        id: "call_1",
+                        type: "function",
+                        function: {
+                            name: "get_weather",
+                            arguments: JSON.stringify({city: "Paris"}),
+                        },
+                    },
+                    {
+                        index: 1,
+                        id: "call_2",
+                        type: "function",
+                        function: {
+                            name: "get_weather",
+                            arguments: JSON.stringify({city: "Rome"}),
+                        },
+                    },
+                ],
+            },
+            {role: "tool", tool_call_id: "call_1", content: "Sun"},
+        ]);
+    });
+
+    it("should keep images as image_url parts", () => {
+        const result = mapResponseInputToChatMessages([
+            {
+                role: "user",
+                content: [
+                    {type: "input_text", text: "What is this?"},
+                    {
+                        type: "input_image",
+                        image_url: "data:image/png;base64,AAAA",
+                    },
+                ],
+            },
+        ]);
+
+        expect(result[0].content).toEqual([
+            {type: "text", text: "What is this?"},
+            {
+                type: "image_url",
+                image_url: {
+                    url: "data:image/png;base64,AAAA",
+                    detail: undefined,
+                },
+            },
+        ]);
+    });
+});
+
+describe("ResponseStreamBuilder", () => {
+    it("should emit typed events for reasoning, text and function calls", () => {
+        const events: OpenAI.ResponseStreamEvent[] = [];
+        const builder = new ResponseStreamBuilder(createResponse(), (event) =>
+            events.push(event),
+        );
+
+        builder.start();
+        builder.push(chunk({reasoning: "Thinking"}));
+        builder.push(chunk({content: "Hel"}));
+        builder.push(chunk({content: "lo"}));
+        builder.push(
+            chunk({
+                tool_calls: [
+                    {
+                        index: 0,
+                        id: "call_1",
+                        type: "function",
+                        function: {name: "lookup", arguments: "{}"},
+                    },
+                ],
+            }),
+        );
+        builder.push({
+            ...chunk({}, "tool_calls"),
+            usage: {
+                prompt_tokens: 10,
+                completion_tokens: 5,
+                total_tokens: 15,
+                completion_tokens_details: {reasoning_tokens: 2},
+            },
+        });
+        const response = builder.complete();
+
+        expect(events.map((event) => event.type)).toEqual([
+            "response.created",
+            "response.in_progress",
+            "response.output_item.added",
+            "response.reasoning_summary_part.added",
+            "response.reasoning_summary_text.delta",
+            "response.reasoning_summary_text.done",
+            "response.reasoning_summary_part.done",
+            "response.output_item.done",
+            "response.output_item.added",
+            "response.content_part.added",
+            "response.output_text.delta",
+            "response.output_text.delta",
+            "response.output_text.done",
+            "response.content_part.done",
+            "response.output_item.done",
+            "response.output_item.added",
+            "response.function_call_arguments.delta",
+            "response.function_call_arguments.done",
+            "response.output_item.done",
+            "response.completed",
+        ]);
+        expect(events.map((event) => event.sequence_number)).toEqual(
+            events.map((_, index) => index),
+        );
+
+        expect(response.status).toBe("completed");
+        expect(response.output).toMatchObject([
+            {
+                type: "reasoning",
+                summary: [{type: "summary_text", text: "Thinking"}],
+            },
+            {
+                type: "message",
+                status: "completed",
+                content: [{type: "output_text", text: "Hello"}],
+            },
+            {
+                type: "function_call",
+                call_id: "call_1",
+                name: "lookup",
+                arguments: "{}",
+                status: "completed",
+            },
+        ]);
+        expect(response.usage).toEqual({
+            input_tokens: 10,
+            input_tokens_details: {cached_tokens: 0},
+            output_tokens: 5,
+            output_tokens_details: {reasoning_tokens: 2},
+            total_tokens: 15,
+        });
+    });
+
+    it("should snapshot items in emitted events", () => {
+        const events: OpenAI.ResponseStreamEvent[] = [];
+        const builder = new ResponseStreamBuilder(createResponse(), (event) =>
+            events.push(event),
+        );
+
+        builder.start();
+        builder.push(chunk({content: "Hi"}));
+        builder.complete();
+
+        const added = events.find(
+            (event) => event.type === "response.output_item.added",
+        );
+        expect(added).toMatchObject({
+            item: {status: "in_progress", content: []},
+        });
+    });
+
+    it("should mark responses cut off by max tokens as incomplete", () => {
+        const events: OpenAI.ResponseStreamEvent[] = [];
+        const builder = new ResponseStreamBuilder(createResponse(), (event) =>
+            events.push(event),
+        );
+
+        builder.push(chunk({content: "Cut"}, "length"));
+        const response = builder.complete();
+
+        expect(response.status).toBe("incomplete");
+        expect(response.incomplete_details).toEqual({
+            reason: "max_output_tokens",
+        });
+        expect(events[events.length - 1].type).toBe("response.incomplete");
+    });
+});
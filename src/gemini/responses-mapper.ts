@@ -0,0 +1,423 @@
+import * as OpenAI from "../types/openai.js";
+
+/**
+ * Maps a Responses API request onto a chat completion request, so it can go
+ * through the same Gemini mapping as /chat/completions. `history` holds the
+ * conversation of the response referenced by previous_response_id.
+ */
+export const mapResponsesRequestToChatCompletion = (
+    request: OpenAI.ResponsesRequest,
+    history: OpenAI.ChatMessage[] = [],
+): OpenAI.ChatCompletionRequest => {
+    const messages: OpenAI.ChatMessage[] = [];
+
+    // Instructions are not carried over from previous responses
+    if (request.instructions) {
+        messages.push({role: "system", content: request.instructions});
+    }
+    messages.push(...history, ...mapResponseInputToChatMessages(request.input));
+
+    const toolChoice = request.tool_choice;
+
+    return {
+        model: request.model,
+        messages,
+        ...(request.temperature !== undefined && {
+            temperature: request.temperature,
+        }),
+        ...(request.max_output_tokens && {
+            max_tokens: request.max_output_tokens,
+        }),
+        ...(request.reasoning?.effort && {
+            reasoning_effort: request.reasoning.effort,
+        }),
+        ...(request.tools && {
+            tools: request.tools
+                .filter((tool) => tool.type === "function")
+                .map((tool) => ({
+                    type: "function" as const,
+                    function: {
+                        name: tool.name,
+                        description: tool.description ?? "",
+                        parameters: tool.parameters ?? {},
+                    },
+                })),
+        }),
+        ...(request.parallel_tool_calls !== undefined && {
+            parallel_tool_calls: request.parallel_tool_calls,
+        }),
+        ...(toolChoice && {
+            tool_choice:
+                typeof toolChoice === "object"
+                    ? {
+                        type: "function" as const,
+                        function: {name: toolChoice.name},
+                    }
+                    : toolChoice,
+        }),
+    };
+};
+
+/**
+ * Converts Responses API input items, or the output of a previous response,
+ * to chat messages
+ */
+export const mapResponseInputToChatMessages = (
+    input: string | OpenAI.ResponseInputItem[],
+): OpenAI.ChatMessage[] => {
+    if (typeof input === "string") {
+        return [{role: "user", content: input}];
+    }
+
+    const messages: OpenAI.ChatMessage[] = [];
+    // Reasoning items precede the assistant output they belong to
+    let pendingReasoning: string | undefined;
+
+    const takeReasoning = () => {
+        const reasoning = pendingReasoning;
+        pendingReasoning = undefined;
+        return reasoning ? {reasoning_content: reasoning} : {};
+    };
+
+    for (const item of input) {
+        if (item.type === "reasoning") {
+            const text = item.summary.map((summary) => summary.text).join("\n");
+            pendingReasoning = pendingReasoning
+                ? `${pendingReasoning}\n${text}`
+                : text;
+        } else if (item.type === "function_call") {
+            // Calls made in the same turn belong to the preceding assistant
+            // message, like tool_calls do in chat completions
+            const lastMessage = messages[messages.length - 1];
+            const message: OpenAI.ChatMessage =
+                lastMessage?.role === "assistant"
+                    ? lastMessage
+                    : {role: "assistant", content: "", ...takeReasoning()};
+            if (message !== lastMessage) {
+                messages.push(message);
+            }
+
+            message.tool_calls = message.tool_calls ?? [];
+            message.tool_calls.push({
+                index: message.tool_calls.length,
+                id: item.call_id,
+                type: "function",
+                function: {name: item.name, arguments: item.arguments},
+            });
+        } else if (item.type === "function_call_output") {
+            messages.push({
+                role: "tool",
+                tool_call_id: item.call_id,
+                content: item.output,
+            });
+        } else {
+            messages.push({
+                role: item.role,
+                content: mapResponseInputContent(item.content),
+                ...(item.role === "assistant" && takeReasoning()),
+            });
+        }
+    }
+
+    return messages;
+};
+
+const mapResponseInputContent = (
+    content: OpenAI.ResponseInputMessage["content"],
+): OpenAI.ChatMessage["content"] => {
+    if (typeof content === "string") {
+        return content;
+    }
+
+    // Plain text keeps assistant turns in the shape the chat mapper expects
+    if (content.every((part) => part.type !== "input_image")) {
+        return content.map((part) => part.text).join("");
+    }
+
+    return content.flatMap((part): OpenAI.MessageContent[] => {
+        if (part.type !== "input_image") {
+            return [{type: "text", text: part.text}];
+        }
+        return part.image_url
+            ? [
+                {
+                    type: "image_url",
+                    image_url: {url: part.image_url, detail: part.detail},
+                },
+            ]
+            : [];
+    });
+};
+
+/**
+ * Maps the running usage attached to stream chunks to Responses API usage
+ */
+export const mapUsageToResponseUsage = (
+    usage: OpenAI.UsageData,
+): OpenAI.ResponseUsage => ({
+    input_tokens: usage.prompt_tokens,
+    input_tokens_details: {
+        cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    },
+    output_tokens: usage.completion_tokens,
+    output_tokens_details: {
+        reasoning_tokens:
+            usage.completion_tokens_details?.reasoning_tokens ?? 0,
+    },
+    total_tokens: usage.total_tokens,
+});
+
+// Sequence numbers are assigned by the builder, omitted from each event type
+type WithoutSequenceNumber<E> = E extends unknown
+    ? Omit<E, "sequence_number">
+    : never;
+type ResponseEvent = WithoutSequenceNumber<OpenAI.ResponseStreamEvent>;
+
+/**
+ * Builds a Responses API response from chat completion stream chunks and
+ * reports every step as a typed stream event
+ */
+export class ResponseStreamBuilder {
+    private sequenceNumber = 0;
+    private openItem:
+        | OpenAI.ResponseOutputMessage
+        | OpenAI.ResponseReasoningItem
+        | undefined = undefined;
+
+    constructor(
+        public readonly response: OpenAI.ResponseObject,
+        private readonly onEvent: (event: OpenAI.ResponseStreamEvent) => void,
+    ) {}
+
+    public start(): void {
+        this.emit({type: "response.created", response: this.response});
+        this.emit({type: "response.in_progress", response: this.response});
+    }
+
+    public push(chunk: OpenAI.StreamChunk): void {
+        if (chunk.usage) {
+            this.response.usage = mapUsageToResponseUsage(chunk.usage);
+        }
+
+        const choice = chunk.choices[0];
+        if (!choice) {
+            return;
+        }
+
+        if (choice.delta.reasoning) {
+            this.writeReasoning(choice.delta.reasoning);
+        }
+        if (choice.delta.content) {
+            this.writeText(choice.delta.content);
+        }
+        for (const toolCall of choice.delta.tool_calls ?? []) {
+            this.writeFunctionCall(toolCall);
+        }
+
+        if (choice.finish_reason === "length") {
+            this.response.incomplete_details = {reason: "max_output_tokens"};
+        } else if (choice.finish_reason === "content_filter") {
+            this.response.incomplete_details = {reason: "content_filter"};
+        }
+    }
+
+    /**
+     * Closes the last output item and reports the final response
+     */
+    public complete(): OpenAI.ResponseObject {
+        this.closeOpenItem();
+
+        const incomplete = this.response.incomplete_details !== null;
+        this.response.status = incomplete ? "incomplete" : "completed";
+        this.emit({
+            type: incomplete ? "response.incomplete" : "response.completed",
+            response: this.response,
+        });
+        return this.response;
+    }
+
+    public fail(error: OpenAI.ResponseError): void {
+        this.response.status = "failed";
+        this.response.error = error;
+        this.emit({type: "response.failed", response: this.response});
+    }
+
+    private writeReasoning(text: string): void {
+        let item = this.openItem;
+        if (item?.type !== "reasoning") {
+            this.closeOpenItem();
+            item = {
+                type: "reasoning",
+                id: `rs_${crypto.randomUUID()}`,
+                summary: [],
+            };
+            this.addItem(item);
+            item.summary.push({type: "summary_text", text: ""});
+            this.emit({
+                type: "response.reasoning_summary_part.added",
+                item_id: item.id,
+                output_index: this.outputIndex,
+                summary_index: 0,
+                part: {type: "summary_text", text: ""},
+            });
+        }
+
+        item.summary[0].text += text;
+        this.emit({
+            type: "response.reasoning_summary_text.delta",
+            item_id: item.id,
+            output_index: this.outputIndex,
+            summary_index: 0,
+            delta: text,
+        });
+    }
+
+    private writeText(text: string): void {
+        let item = this.openItem;
+        if (item?.type !== "message") {
+            this.closeOpenItem();
+            item = {
+                type: "message",
+                id: `msg_${crypto.randomUUID()}`,
+                role: "assistant",
+                status: "in_progress",
+                content: [],
+            };
+            this.addItem(item);
+            item.content.push({
+                type: "output_text",
+                text: "",
+                annotations: [],
+            });
+            this.emit({
+                type: "response.content_part.added",
+                item_id: item.id,
+                output_index: this.outputIndex,
+                content_index: 0,
+                part: {type: "output_text", text: "", annotations: []},
+            });
+        }
+
+        item.content[0].text += text;
+        this.emit({
+            type: "response.output_text.delta",
+            item_id: item.id,
+            output_index: this.outputIndex,
+            content_index: 0,
+            delta: text,
+        });
+    }
+
+    // Gemini returns function calls whole, so each one is reported as a
+    // single arguments delta
+    private writeFunctionCall(toolCall: OpenAI.ToolCall): void {
+        this.closeOpenItem();
+
+        const item: OpenAI.ResponseFunctionCall = {
+            type: "function_call",
+            id: `fc_${crypto.randomUUID()}`,
+            call_id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: "",
+            status: "in_progress",
+        };
+        this.addItem(item);
+
+        item.arguments = toolCall.function.arguments;
+        this.emit({
+            type: "response.function_call_arguments.delta",
+            item_id: item.id,
+            output_index: this.outputIndex,
+            delta: item.arguments,
+        });
+        this.emit({
+            type: "response.function_call_arguments.done",
+            item_id: item.id,
+            output_index: this.outputIndex,
+            arguments: item.arguments,
+        });
+
+        item.status = "completed";
+        this.emit({
+            type: "response.output_item.done",
+            output_index: this.outputIndex,
+            item,
+        });
+    }
+
+    private addItem(item: OpenAI.ResponseOutputItem): void {
+        this.response.output.push(item);
+        if (item.type !== "function_call") {
+            this.openItem = item;
+        }
+        this.emit({
+            type: "response.output_item.added",
+            output_index: this.outputIndex,
+            item,
+        });
+    }
+
+    private closeOpenItem(): void {
+        const item = this.openItem;
+        if (!item) {
+            return;
+        }
+        this.openItem = undefined;
+
+        if (item.type === "reasoning") {
+            const part = item.summary[0];
+            this.emit({
+                type: "response.reasoning_summary_text.done",
+                item_id: item.id,
+                output_index: this.outputIndex,
+                summary_index: 0,
+                text: part.text,
+            });
+            this.emit({
+                type: "response.reasoning_summary_part.done",
+                item_id: item.id,
+                output_index: this.outputIndex,
+                summary_index: 0,
+                part,
+            });
+        } else {
+            const part = item.content[0];
+            this.emit({
+                type: "response.output_text.done",
+                item_id: item.id,
+                output_index: this.outputIndex,
+                content_index: 0,
+                text: part.text,
+            });
+            this.emit({
+                type: "response.content_part.done",
+                item_id: item.id,
+                output_index: this.outputIndex,
+                content_index: 0,
+                part,
+            });
+            item.status = "completed";
+        }
+
+        this.emit({
+            type: "response.output_item.done",
+            output_index: this.outputIndex,
+            item,
+        });
+    }
+
+    // Items are only ever written to the last output slot
+    private get outputIndex(): number {
+        return this.response.output.length - 1;
+    }
+
+    private emit(event: ResponseEvent): void {
+        // Items keep changing after an event, so listeners get a snapshot
+        this.onEvent(
+            structuredClone({
+                ...event,
+                sequence_number: this.sequenceNumber++,
+            }) as OpenAI.ResponseStreamEvent,
+        );
+    }
+}
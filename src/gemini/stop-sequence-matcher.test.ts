@@ -0,0 +1,50 @@
+import {describe, it, expect} from "vitest";
+import {StopSequenceMatcher} from "./stop-sequence-matcher.js";
+
+describe("StopSequenceMatcher", () => {
+    it("should pass text through when there are no stop sequences", () => {
+        const matcher = new StopSequenceMatcher([]);
+
+        expect(matcher.push("Hello ")).toBe("Hello ");
+        expect(matcher.push("world")).toBe("world");
+        expect(matcher.flush()).toBe("");
+        expect(matcher.matched).toBeUndefined();
+    });
+
+    it("should truncate text at the stop sequence", () => {
+        const matcher = new StopSequenceMatcher(["END"]);
+
+        const output = matcher.push("Hello END more text");
+
+        expect(output).toBe("Hello ");
+        expect(matcher.matched).toBe("END");
+        expect(matcher.push("ignored")).toBe("");
+    });
+
+    it("should find stop sequences split across chunks", () => {
+        const matcher = new StopSequenceMatcher(["</answer>"]);
+
+        let output = matcher.push("42</ans");
+        output += matcher.push("wer> trailing");
+
+        expect(output).toBe("42");
+        expect(matcher.matched).toBe("</answer>");
+    });
+
+    it("should release held back text on flush", () => {
+        const matcher = new StopSequenceMatcher(["STOP"]);
+
+        const output = matcher.push("Almost ST");
+
+        expect(output).toBe("Almost");
+        expect(matcher.flush()).toBe(" ST");
+        expect(matcher.matched).toBeUndefined();
+    });
+
+    it("should report the earliest matching stop sequence", () => {
+        const matcher = new StopSequenceMatcher(["world", "lo"]);
+
+        expect(matcher.push("Hello world")).toBe("Hel");
+        expect(matcher.matched).toBe("lo");
+    });
+});
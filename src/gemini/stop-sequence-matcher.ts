@@ -0,0 +1,69 @@
+/**
+ * Finds client provided stop sequences in streamed text.
+ *
+ * Gemini strips a matched stop sequence and reports a plain STOP, so the
+ * sequence that ended the output can't be recovered from its response.
+ * Matching them here lets the proxy report which sequence was hit.
+ */
+export class StopSequenceMatcher {
+    private buffer = "";
+    private readonly holdBack: number;
+    private _matched: string | undefined = undefined;
+
+    constructor(private readonly stopSequences: string[]) {
+        this.stopSequences = stopSequences.filter((seq) => seq.length > 0);
+        // Keep enough text back to find a sequence split across chunks
+        this.holdBack = Math.max(
+            0,
+            ...this.stopSequences.map((seq) => seq.length - 1),
+        );
+    }
+
+    /**
+     * The stop sequence that ended the text, if any
+     */
+    public get matched(): string | undefined {
+        return this._matched;
+    }
+
+    /**
+     * Feeds the next piece of text and returns the part that is safe to emit.
+     * Returns an empty string for everything after a match.
+     */
+    public push(text: string): string {
+        if (this._matched !== undefined) {
+            return "";
+        }
+
+        this.buffer += text;
+
+        let matchIndex = -1;
+        for (const seq of this.stopSequences) {
+            const index = this.buffer.indexOf(seq);
+            if (index !== -1 && (matchIndex === -1 || index < matchIndex)) {
+                matchIndex = index;
+                this._matched = seq;
+            }
+        }
+
+        if (matchIndex !== -1) {
+            const output = this.buffer.slice(0, matchIndex);
+            this.buffer = "";
+            return output;
+        }
+
+        const emitLength = Math.max(0, this.buffer.length - this.holdBack);
+        const output = this.buffer.slice(0, emitLength);
+        this.buffer = this.buffer.slice(emitLength);
+        return output;
+    }
+
+    /**
+     * Returns the text held back once the stream has ended
+     */
+    public flush(): string {
+        const output = this.buffer;
+        this.buffer = "";
+        return output;
+    }
+}
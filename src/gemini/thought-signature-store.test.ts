@@ -0,0 +1,97 @@
+import {describe, it, expect, afterEach} from "vitest";
+import {promises as fs} from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+    getConversationKeys,
+    ThoughtSignatureStore,
+} from "./thought-signature-store.js";
+
+describe("ThoughtSignatureStore", () => {
+    let dirPath: string | undefined;
+
+    afterEach(async () => {
+        if (dirPath) {
+            await fs.rm(dirPath, {recursive: true, force: true});
+            dirPath = undefined;
+        }
+    });
+
+    it("should drop the least recently used signatures", () => {
+        const store = new ThoughtSignatureStore(2);
+        store.set("call_1", "sig-1");
+        store.set("call_2", "sig-2");
+        store.get("call_1");
+        store.set("call_3", "sig-3");
+
+        expect(store.get("call_1")).toBe("sig-1");
+        expect(store.get("call_2")).toBeUndefined();
+        expect(store.get("call_3")).toBe("sig-3");
+    });
+
+    it("should persist signatures to disk", async () => {
+        dirPath = await fs.mkdtemp(path.join(os.tmpdir(), "signatures-"));
+        const filePath = path.join(dirPath, "thought_signatures.json");
+
+        const store = new ThoughtSignatureStore(10, filePath);
+        store.set("call_1", "sig-1");
+        await store.flush();
+
+        const restored = new ThoughtSignatureStore(10, filePath);
+        await restored.load();
+        expect(restored.get("call_1")).toBe("sig-1");
+    });
+
+    it("should start empty without a persisted file", async () => {
+        dirPath = await fs.mkdtemp(path.join(os.tmpdir(), "signatures-"));
+        const store = new ThoughtSignatureStore(
+            10,
+            path.join(dirPath, "missing.json")
+        );
+
+        await store.load();
+        expect(store.get("call_1")).toBeUndefined();
+    });
+
+    it("should key text turns by the conversation", () => {
+        const store = new ThoughtSignatureStore();
+        store.setForConversation(
+            [
+                {role: "user", content: "Hi"},
+                {role: "assistant", content: "Hello"},
+            ],
+            "sig-text"
+        );
+
+        const keys = getConversationKeys([
+            {role: "system", content: "Be brief"},
+            {role: "user", content: "Hi"},
+            {
+                role: "assistant",
+                content: "<thinking>\nGreeting\n</thinking>\n\nHello",
+            },
+        ]);
+        expect(store.get(keys[2])).toBe("sig-text");
+    });
+});
+
+describe("getConversationKeys", () => {
+    it("should tell different conversations apart", () => {
+        const [first] = getConversationKeys([{role: "user", content: "Hi"}]);
+        const [second] = getConversationKeys([
+            {role: "user", content: "Hey"},
+        ]);
+
+        expect(first).not.toBe(second);
+    });
+
+    it("should return one key per message", () => {
+        const keys = getConversationKeys([
+            {role: "user", content: "Hi"},
+            {role: "assistant", content: "Hello"},
+        ]);
+
+        expect(keys).toHaveLength(2);
+        expect(keys[0]).not.toBe(keys[1]);
+    });
+});
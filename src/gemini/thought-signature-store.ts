@@ -0,0 +1,142 @@
+import {createHash} from "node:crypto";
+import {promises as fs} from "node:fs";
+import path from "node:path";
+import chalk from "chalk";
+import * as OpenAI from "../types/openai.js";
+import {
+    THOUGHT_SIGNATURE_SAVE_DELAY_MS,
+    THOUGHT_SIGNATURE_STORE_MAX_ENTRIES,
+} from "../utils/constant.js";
+import {getLogger} from "../utils/logger.js";
+import {LruCache} from "../utils/lru-cache.js";
+
+/**
+ * Remembers the thought signatures Gemini returns, so they can be sent back
+ * with the exact turn they belong to. OpenAI clients don't echo signatures,
+ * so function calls are keyed by the tool call id handed to the client and
+ * text turns by a fingerprint of the conversation (see getConversationKeys).
+ * The least recently used signatures are dropped once the store is full.
+ * When a file path is given, signatures survive server restarts.
+ */
+export class ThoughtSignatureStore {
+    private entries: LruCache<string, string>;
+    private saveTimer: NodeJS.Timeout | undefined = undefined;
+    private readonly logger = getLogger("THOUGHT-SIGNATURES", chalk.gray);
+
+    constructor(
+        private readonly maxEntries: number = THOUGHT_SIGNATURE_STORE_MAX_ENTRIES,
+        private readonly filePath?: string,
+    ) {
+        this.entries = new LruCache(maxEntries);
+    }
+
+    /**
+     * Restores persisted signatures, a missing or broken file starts empty
+     */
+    public async load(): Promise<void> {
+        if (!this.filePath) {
+            return;
+        }
+
+        try {
+            const content = await fs.readFile(this.filePath, "utf-8");
+            const entries = JSON.parse(content) as Array<[string, string]>;
+            this.entries = new LruCache(this.maxEntries, entries);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                this.logger.warn("Failed to load thought signatures", error);
+            }
+        }
+    }
+
+    public get(key: string): string | undefined {
+        return this.entries.get(key);
+    }
+
+    public set(key: string, signature: string): void {
+        this.entries.set(key, signature);
+        this.scheduleSave();
+    }
+
+    /**
+     * Stores the signature of an assistant text turn, `messages` is the
+     * conversation ending with that turn
+     */
+    public setForConversation(
+        messages: OpenAI.ChatMessage[],
+        signature: string,
+    ): void {
+        const key = getConversationKeys(messages).at(-1);
+        if (key) {
+            this.set(key, signature);
+        }
+    }
+
+    /**
+     * Writes pending changes right away instead of waiting for the delay
+     */
+    public async flush(): Promise<void> {
+        if (!this.saveTimer) {
+            return;
+        }
+        clearTimeout(this.saveTimer);
+        this.saveTimer = undefined;
+        await this.save();
+    }
+
+    // Bursts of calls are written once, signatures are several KB each
+    private scheduleSave(): void {
+        if (!this.filePath || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            void this.save();
+        }, THOUGHT_SIGNATURE_SAVE_DELAY_MS);
+        this.saveTimer.unref();
+    }
+
+    private async save(): Promise<void> {
+        const filePath = this.filePath!;
+        const tmpPath = `${filePath}.tmp`;
+        try {
+            await fs.mkdir(path.dirname(filePath), {recursive: true});
+            await fs.writeFile(tmpPath, JSON.stringify(this.entries.toArray()));
+            await fs.rename(tmpPath, filePath);
+        } catch (error) {
+            this.logger.warn("Failed to save thought signatures", error);
+        }
+    }
+}
+
+const THINKING_TAG_REGEX = /<thinking>[\s\S]*?<\/thinking>\n*/;
+
+/**
+ * Returns a fingerprint of the conversation ending at each message, used as
+ * the signature key of assistant text turns. System messages are skipped and
+ * assistant content is compared without the <thinking> block the proxy
+ * prepends in the inline reasoning output mode.
+ */
+export const getConversationKeys = (
+    messages: OpenAI.ChatMessage[],
+): string[] => {
+    const hash = createHash("sha256");
+
+    return messages.map((message) => {
+        if (message.role !== "system" && message.role !== "developer") {
+            let content = message.content;
+            if (message.role === "assistant" && typeof content === "string") {
+                content = content.replace(THINKING_TAG_REGEX, "").trim();
+            }
+            hash.update(
+                JSON.stringify([
+                    message.role,
+                    content ?? "",
+                    message.tool_calls?.map((toolCall) => toolCall.id) ?? [],
+                    message.tool_call_id ?? "",
+                ]),
+            );
+        }
+        return `conversation:${hash.copy().digest("hex")}`;
+    });
+};
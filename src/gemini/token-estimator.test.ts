@@ -0,0 +1,67 @@
+import {describe, it, expect} from "vitest";
+import {estimateTokenCount} from "./token-estimator.js";
+
+describe("estimateTokenCount", () => {
+    it("should estimate text tokens from character count", () => {
+        const result = estimateTokenCount({
+            contents: [{role: "user", parts: [{text: "a".repeat(40)}]}],
+        });
+
+        expect(result).toBe(10);
+    });
+
+    it("should include system instruction and tool declarations", () => {
+        const declarations = [
+            {
+                name: "get_weather",
+                description: "Get weather",
+                parameters: {type: "object"},
+            },
+        ];
+
+        const result = estimateTokenCount({
+            systemInstruction: {parts: [{text: "b".repeat(20)}]},
+            tools: [{functionDeclarations: declarations}],
+            contents: [{role: "user", parts: [{text: "c".repeat(20)}]}],
+        });
+
+        expect(result).toBe(
+            Math.ceil((40 + JSON.stringify(declarations).length) / 4)
+        );
+    });
+
+    it("should count images as a fixed number of tokens", () => {
+        const result = estimateTokenCount({
+            contents: [
+                {
+                    role: "user",
+                    parts: [
+                        {inlineData: {mimeType: "image/png", data: "xyz"}},
+                    ],
+                },
+            ],
+        });
+
+        expect(result).toBe(258);
+    });
+
+    it("should count function calls and responses", () => {
+        const functionCall = {name: "search", args: {q: "test"}};
+        const functionResponse = {name: "search", response: {result: "ok"}};
+
+        const result = estimateTokenCount({
+            contents: [
+                {role: "model", parts: [{functionCall}]},
+                {role: "user", parts: [{functionResponse}]},
+            ],
+        });
+
+        expect(result).toBe(
+            Math.ceil(
+                (JSON.stringify(functionCall).length +
+                    JSON.stringify(functionResponse).length) /
+                    4
+            )
+        );
+    });
+});
@@ -0,0 +1,47 @@
+import * as Gemini from "../types/gemini.js";
+
+// Rough average for English text and code, used when the API can't count
+const CHARS_PER_TOKEN = 4;
+// Gemini bills every image as a fixed number of tokens
+const TOKENS_PER_IMAGE = 258;
+
+/**
+ * Estimates the prompt tokens of a Gemini request without calling the API.
+ * Used as a fallback when the countTokens method is unavailable.
+ */
+export const estimateTokenCount = (
+    request: Gemini.ChatCompletionRequestBody
+): number => {
+    let chars = 0;
+    let tokens = 0;
+
+    const countParts = (parts: Gemini.Part[]) => {
+        for (const part of parts) {
+            if ("text" in part) {
+                chars += part.text.length;
+            } else if ("inlineData" in part) {
+                tokens += TOKENS_PER_IMAGE;
+            } else if ("functionCall" in part) {
+                chars += JSON.stringify(part.functionCall).length;
+            } else if ("functionResponse" in part) {
+                chars += JSON.stringify(part.functionResponse).length;
+            }
+        }
+    };
+
+    if (request.systemInstruction) {
+        countParts(request.systemInstruction.parts);
+    }
+
+    for (const tool of request.tools ?? []) {
+        if (tool.functionDeclarations) {
+            chars += JSON.stringify(tool.functionDeclarations).length;
+        }
+    }
+
+    for (const content of request.contents) {
+        countParts(content.parts);
+    }
+
+    return tokens + Math.ceil(chars / CHARS_PER_TOKEN);
+};
@@ -0,0 +1,82 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from "vitest";
+import {parseToolArguments, repairJson} from "./tool-arguments.js";
+
+describe("parseToolArguments", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "info").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should parse valid arguments as is", () => {
+        expect(
+            parseToolArguments(JSON.stringify({path: "a.ts"}), "read_file")
+        ).toEqual({path: "a.ts"});
+        expect(console.info).not.toHaveBeenCalled();
+    });
+
+    it("should treat empty arguments as no arguments", () => {
+        expect(parseToolArguments("", "list_files")).toEqual({});
+        expect(parseToolArguments(undefined, "list_files")).toEqual({});
+    });
+
+    it("should unwrap double encoded arguments", () => {
+        expect(
+            parseToolArguments(
+                JSON.stringify(JSON.stringify({path: "a.ts"})),
+                "read_file"
+            )
+        ).toEqual({path: "a.ts"});
+    });
+
+    it("should repair broken arguments and log it", () => {
+        expect(
+            parseToolArguments(
+                "{\"path\":\"a.ts\", \"lines\": [1, 2,],}",
+                "read_file"
+            )
+        ).toEqual({path: "a.ts", lines: [1, 2]});
+        expect(console.info).toHaveBeenCalledWith(
+            expect.stringContaining("Repaired malformed arguments")
+        );
+    });
+
+    it("should fall back to the raw arguments", () => {
+        expect(parseToolArguments("path=a.ts", "read_file")).toEqual({
+            raw_arguments: "path=a.ts",
+        });
+        expect(parseToolArguments("[1, 2]", "read_file")).toEqual({
+            raw_arguments: "[1, 2]",
+        });
+    });
+});
+
+describe("repairJson", () => {
+    it("should strip code fences", () => {
+        expect(JSON.parse(repairJson("```json\n{\"a\": 1}\n```"))).toEqual({
+            a: 1,
+        });
+    });
+
+    it("should remove trailing commas outside of strings", () => {
+        expect(JSON.parse(repairJson("{\"a\": \"x,}\", \"b\": [1,],}"))).toEqual({
+            a: "x,}",
+            b: [1],
+        });
+    });
+
+    it("should close truncated strings, arrays and objects", () => {
+        expect(JSON.parse(repairJson("{\"a\": {\"b\": [\"c\", \"d"))).toEqual({
+            a: {b: ["c", "d"]},
+        });
+        expect(JSON.parse(repairJson("{\"a\": \"line\\"))).toEqual({
+            a: "line",
+        });
+        expect(JSON.parse(repairJson("{\"a\": 1, \"b\": "))).toEqual({
+            a: 1,
+            b: null,
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import chalk from "chalk";
+import {getLogger} from "../utils/logger.js";
+
+const logger = getLogger("TOOL-ARGUMENTS", chalk.yellow);
+
+const CODE_FENCE_REGEX = /^```[\w-]*\s*([\s\S]*?)\s*```$/;
+
+/**
+ * Parses the arguments of a tool call. Clients send back whatever arguments
+ * they stored, which in long agent sessions includes truncated or hand
+ * edited JSON, so a broken string is repaired rather than failing the whole
+ * request. Arguments that can't be repaired are passed on as
+ * `{ raw_arguments }` so the model still sees them.
+ */
+export const parseToolArguments = (
+    args: string | undefined,
+    toolName: string,
+): Record<string, unknown> => {
+    if (!args?.trim()) {
+        return {};
+    }
+
+    const parsed = tryParseObject(args);
+    if (parsed) {
+        return parsed;
+    }
+
+    const repaired = repairJson(args);
+    const repairedParsed = tryParseObject(repaired);
+    if (repairedParsed) {
+        logger.warn(`Repaired malformed arguments of tool call ${toolName}`);
+        return repairedParsed;
+    }
+
+    logger.warn(
+        `Unable to repair arguments of tool call ${toolName}, passing them on as raw text`,
+    );
+    return {raw_arguments: args};
+};
+
+// Function arguments are always objects, double encoded ones are unwrapped
+const tryParseObject = (text: string): Record<string, unknown> | undefined => {
+    try {
+        let value: unknown = JSON.parse(text);
+        if (typeof value === "string") {
+            value = JSON.parse(value);
+        }
+        return value && typeof value === "object" && !Array.isArray(value)
+            ? (value as Record<string, unknown>)
+            : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Fixes the usual ways JSON written by a model or cut off by a length limit
+ * breaks: code fences around it, trailing commas, unterminated strings and
+ * unclosed objects or arrays. The result is not guaranteed to be valid.
+ */
+export const repairJson = (text: string): string => {
+    let input = text.trim();
+    const fenced = input.match(CODE_FENCE_REGEX);
+    if (fenced) {
+        input = fenced[1];
+    }
+
+    let output = "";
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const char of input) {
+        if (inString) {
+            output += char;
+            if (escaped) {
+                escaped = false;
+            } else if (char === "\\") {
+                escaped = true;
+            } else if (char === "\"") {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (char === "\"") {
+            inString = true;
+        } else if (char === "{") {
+            closers.push("}");
+        } else if (char === "[") {
+            closers.push("]");
+        } else if (char === "}" || char === "]") {
+            output = removeTrailingComma(output);
+            closers.pop();
+        }
+        output += char;
+    }
+
+    // Cut off input: finish the string, then the value it was part of
+    if (inString) {
+        if (escaped) {
+            output = output.slice(0, -1);
+        }
+        output += "\"";
+    }
+    output = removeTrailingComma(output.trimEnd());
+    if (output.endsWith(":")) {
+        output += "null";
+    }
+    return output + closers.reverse().join("");
+};
+
+const removeTrailingComma = (text: string): string =>
+    text.replace(/,\s*$/, "");
@@ -1,20 +1,28 @@
 #!/usr/bin/env node
 import express from "express";
-import { Command } from "@commander-js/extra-typings";
+import {Command, Option} from "@commander-js/extra-typings";
 
 import { setupAuthentication } from "./auth/auth.js";
 import { GeminiApiClient } from "./gemini/client.js";
+import {MessageBatchManager} from "./gemini/message-batches.js";
+import {ThoughtSignatureStore} from "./gemini/thought-signature-store.js";
+import {REASONING_OUTPUT_MODES} from "./gemini/openai-mapper.js";
 import { createOpenAIRouter } from "./routes/openai.js";
 import { createAnthropicRouter } from "./routes/anthropic.js";
 import {
     DEFAULT_PORT,
+    DEFAULT_REASONING_OUTPUT,
     DISABLE_AUTO_MODEL_SWITCH,
     DISABLE_BROWSER_AUTH,
     DISABLE_GOOGLE_SEARCH,
+    PERSIST_THOUGHT_SIGNATURES,
 } from "./utils/constant.js";
 import { OAuthRotator } from "./utils/oauth-rotator.js";
 import { getLogger } from "./utils/logger.js";
-import { getAccountsDirPath } from "./utils/paths.js";
+import {
+    getAccountsDirPath,
+    getThoughtSignaturesPath,
+} from "./utils/paths.js";
 import { existsSync } from "node:fs";
 import chalk from "chalk";
 
@@ -39,6 +47,19 @@ const program = new Command()
         "Disables auto model switching in case of rate limiting",
         DISABLE_AUTO_MODEL_SWITCH,
     )
+    .option(
+        "--persist-thought-signatures",
+        "Keeps Gemini thought signatures on disk across server restarts",
+        PERSIST_THOUGHT_SIGNATURES,
+    )
+    .addOption(
+        new Option(
+            "--reasoning-output <mode>",
+            "Where OpenAI responses return model thoughts",
+        )
+            .choices(REASONING_OUTPUT_MODES)
+            .default(DEFAULT_REASONING_OUTPUT),
+    )
     .option(
         "--oauth-rotation-paths <paths>",
         "Comma-separated paths to OAuth credential files for rotation",
@@ -111,10 +132,18 @@ export async function startServer() {
         const authClient = await setupAuthentication(
             opts.disableBrowserAuth ?? false,
         );
+        const thoughtSignatures = new ThoughtSignatureStore(
+            undefined,
+            opts.persistThoughtSignatures
+                ? getThoughtSignaturesPath()
+                : undefined,
+        );
+        await thoughtSignatures.load();
         const geminiClient = new GeminiApiClient(
             authClient,
             opts.googleCloudProject ?? process.env.GOOGLE_CLOUD_PROJECT,
             opts.disableAutoModelSwitch,
+            thoughtSignatures,
         );
 
         const app = express();
@@ -173,19 +202,31 @@ export async function startServer() {
         });
 
         app.get("/health", (_req, res) => {
-            res.status(200).json({ status: "ok" });
+            res.status(200).json({
+                status: "ok",
+                cancelledRequests: geminiClient.cancelledRequestCount,
+            });
         });
 
         // Gemini CLI endpoints
         const openAIRouter = createOpenAIRouter(
             geminiClient,
             opts.enableGoogleSearch,
+            opts.reasoningOutput,
         );
         app.use("/openai", openAIRouter);
 
+        // Pick up message batches left unfinished by a previous run
+        const batchManager = new MessageBatchManager(
+            geminiClient,
+            opts.enableGoogleSearch,
+        );
+        await batchManager.resumePendingBatches();
+
         const anthropicRouter = createAnthropicRouter(
             geminiClient,
             opts.enableGoogleSearch,
+            batchManager,
         );
         app.use("/anthropic", anthropicRouter);
 
@@ -214,7 +255,8 @@ export async function startServer() {
 
             server.close(() => {
                 logger.info("Server closed.");
-                process.exit(0);
+                // Write thought signatures still waiting for the save delay
+                void thoughtSignatures.flush().finally(() => process.exit(0));
             });
         };
 
@@ -1,9 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import request from "supertest";
 import { createAnthropicRouter } from "./anthropic.js";
-import { GeminiApiClient } from "../gemini/client.js";
+import {promises as fs} from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {GeminiApiClient, GeminiApiError} from "../gemini/client.js";
+import {MessageBatchManager} from "../gemini/message-batches.js";
 
 // Mock GeminiApiClient
-vi.mock("../gemini/client.js", () => ({
+vi.mock("../gemini/client.js", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../gemini/client.js")>()),
     GeminiApiClient: vi.fn(),
 }));
 
@@ -15,6 +22,7 @@ describe("Anthropic Router", () => {
             discoverProjectId: vi.fn().mockResolvedValue("test-project"),
             getCompletion: vi.fn(),
             streamContent: vi.fn(),
+            countTokens: vi.fn(),
         };
         vi.mocked(GeminiApiClient).mockImplementation(() => mockGeminiClient);
     });
@@ -23,6 +31,16 @@ describe("Anthropic Router", () => {
         vi.clearAllMocks();
     });
 
+    const createApp = (batchManager?: MessageBatchManager) => {
+        const app = express();
+        app.use(express.json());
+        app.use(
+            "/anthropic",
+            createAnthropicRouter(mockGeminiClient, false, batchManager),
+        );
+        return app;
+    };
+
     describe("router creation", () => {
         it("should create a router", () => {
             const router = createAnthropicRouter(mockGeminiClient);
@@ -138,4 +156,516 @@ describe("Anthropic Router", () => {
             expect(mockGeminiClient.discoverProjectId).toBeDefined();
         });
     });
+
+    describe("streaming", () => {
+        const parseEvents = (text: string) =>
+            text
+                .split("\n\n")
+                .filter((frame) => frame.startsWith("event: "))
+                .map((frame) => JSON.parse(frame.split("\ndata: ")[1]));
+
+        it("should emit tool_use blocks with their own indices", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {choices: [{delta: {content: "Checking"}}]};
+                    yield {
+                        choices: [
+                            {
+                                delta: {
+                                    tool_calls: [
+                                        {
+                                            index: 0,
+                                            id: "call_1",
+                                            type: "function",
+                                            function: {
+                                                name: "get_weather",
+                                                arguments: JSON.stringify({city: "Paris"}),
+                                            },
+                                        },
+                                        {
+                                            index: 1,
+                                            id: "call_2",
+                                            type: "function",
+                                            function: {
+                                                name: "get_time",
+                                                arguments: "{}",
+                                            },
+                                        },
+                                    ],
+                                },
+                            },
+                        ],
+                    };
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send({
+                    model: "claude-3-5-sonnet-20241022",
+                    max_tokens: 1000,
+                    stream: true,
+                    messages: [{role: "user", content: "Weather?"}],
+                });
+
+            const events = parseEvents(response.text);
+            const blockEvents = events.filter((event) =>
+                event.type.startsWith("content_block")
+            );
+
+            expect(
+                blockEvents.map((event) => [event.type, event.index])
+            ).toEqual([
+                ["content_block_start", 0],
+                ["content_block_delta", 0],
+                ["content_block_stop", 0],
+                ["content_block_start", 1],
+                ["content_block_delta", 1],
+                ["content_block_stop", 1],
+                ["content_block_start", 2],
+                ["content_block_delta", 2],
+                ["content_block_stop", 2],
+            ]);
+            expect(blockEvents[3].content_block).toEqual({
+                type: "tool_use",
+                id: "call_1",
+                name: "get_weather",
+                input: {},
+            });
+            expect(blockEvents[4].delta).toEqual({
+                type: "input_json_delta",
+                partial_json: JSON.stringify({city: "Paris"}),
+            });
+
+            const messageDelta = events.find(
+                (event) => event.type === "message_delta"
+            );
+            expect(messageDelta.delta.stop_reason).toBe("tool_use");
+        });
+
+        it("should emit signed thinking blocks before text", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {choices: [{delta: {reasoning: "Hmm"}}]};
+                    yield {
+                        choices: [
+                            {
+                                delta: {
+                                    content: "Answer",
+                                    thought_signature: "sig-1",
+                                },
+                            },
+                        ],
+                    };
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send({
+                    model: "claude-sonnet-4-20250514",
+                    max_tokens: 1000,
+                    stream: true,
+                    thinking: {type: "enabled", budget_tokens: 1024},
+                    messages: [{role: "user", content: "Hi"}],
+                });
+
+            const blockEvents = parseEvents(response.text).filter((event) =>
+                event.type.startsWith("content_block")
+            );
+
+            expect(blockEvents).toEqual([
+                {
+                    type: "content_block_start",
+                    index: 0,
+                    content_block: {type: "thinking", thinking: ""},
+                },
+                {
+                    type: "content_block_delta",
+                    index: 0,
+                    delta: {type: "thinking_delta", thinking: "Hmm"},
+                },
+                {
+                    type: "content_block_delta",
+                    index: 0,
+                    delta: {type: "signature_delta", signature: "sig-1"},
+                },
+                {type: "content_block_stop", index: 0},
+                {
+                    type: "content_block_start",
+                    index: 1,
+                    content_block: {type: "text", text: ""},
+                },
+                {
+                    type: "content_block_delta",
+                    index: 1,
+                    delta: {type: "text_delta", text: "Answer"},
+                },
+                {type: "content_block_stop", index: 1},
+            ]);
+        });
+
+        it("should report Gemini usage in message_start and message_delta", async () => {
+            const usage = {
+                prompt_tokens: 120,
+                completion_tokens: 0,
+                total_tokens: 120,
+                prompt_tokens_details: {cached_tokens: 20},
+            };
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {choices: [{delta: {content: "Hi"}}], usage};
+                    yield {
+                        choices: [{delta: {}, finish_reason: "stop"}],
+                        usage: {
+                            ...usage,
+                            completion_tokens: 7,
+                            total_tokens: 127,
+                        },
+                    };
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send({
+                    model: "claude-3-5-sonnet-20241022",
+                    max_tokens: 1000,
+                    stream: true,
+                    messages: [{role: "user", content: "Hi"}],
+                });
+
+            const events = parseEvents(response.text);
+            expect(events[0].type).toBe("message_start");
+            expect(events[0].message.usage).toEqual({
+                input_tokens: 100,
+                output_tokens: 0,
+                cache_read_input_tokens: 20,
+            });
+
+            const messageDelta = events.find(
+                (event) => event.type === "message_delta"
+            );
+            expect(messageDelta.usage).toEqual({
+                input_tokens: 100,
+                output_tokens: 7,
+                cache_read_input_tokens: 20,
+            });
+        });
+
+        it("should stop streaming at a matched stop sequence", async () => {
+            // Returning from the stream cancels the upstream request
+            const readRest = vi.fn();
+            const closeStream = vi.fn();
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    try {
+                        yield {choices: [{delta: {content: "one two </"}}]};
+                        yield {choices: [{delta: {content: "stop> three"}}]};
+                        readRest();
+                        yield {choices: [{delta: {content: " four"}}]};
+                    } finally {
+                        closeStream();
+                    }
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send({
+                    model: "claude-3-5-sonnet-20241022",
+                    max_tokens: 1000,
+                    stream: true,
+                    stop_sequences: ["</stop>"],
+                    messages: [{role: "user", content: "Count"}],
+                });
+
+            const events = parseEvents(response.text);
+            const text = events
+                .filter((event) => event.delta?.type === "text_delta")
+                .map((event) => event.delta.text)
+                .join("");
+            expect(text).toBe("one two ");
+
+            const messageDelta = events.find(
+                (event) => event.type === "message_delta"
+            );
+            expect(messageDelta.delta).toEqual({
+                stop_reason: "stop_sequence",
+                stop_sequence: "</stop>",
+            });
+            expect(readRest).not.toHaveBeenCalled();
+            expect(closeStream).toHaveBeenCalled();
+            // Gemini isn't told the stop sequences, so it sends them back
+            const [geminiRequest] = mockGeminiClient.streamContent.mock.calls[0];
+            expect(
+                geminiRequest.request.generationConfig.stopSequences
+            ).toBeUndefined();
+        });
+
+        it("should report max_tokens when Gemini hits the output limit", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {choices: [{delta: {content: "Long"}}]};
+                    yield {
+                        choices: [{delta: {}, finish_reason: "length"}],
+                    };
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send({
+                    model: "claude-3-5-sonnet-20241022",
+                    max_tokens: 1,
+                    stream: true,
+                    messages: [{role: "user", content: "Write"}],
+                });
+
+            const messageDelta = parseEvents(response.text).find(
+                (event) => event.type === "message_delta"
+            );
+            expect(messageDelta.delta.stop_reason).toBe("max_tokens");
+        });
+
+        it("should report end_turn when no tool is called", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {choices: [{delta: {content: "Hello"}}]};
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send({
+                    model: "claude-3-5-sonnet-20241022",
+                    max_tokens: 1000,
+                    stream: true,
+                    messages: [{role: "user", content: "Hi"}],
+                });
+
+            const events = parseEvents(response.text);
+            const messageDelta = events.find(
+                (event) => event.type === "message_delta"
+            );
+            expect(messageDelta.delta.stop_reason).toBe("end_turn");
+            expect(events[events.length - 1].type).toBe("message_stop");
+        });
+    });
+
+    describe("count_tokens", () => {
+        it("should return input_tokens counted by Gemini", async () => {
+            mockGeminiClient.countTokens.mockResolvedValue(42);
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages/count_tokens")
+                .send({
+                    model: "claude-3-5-sonnet-20241022",
+                    messages: [{role: "user", content: "Hello"}],
+                });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({input_tokens: 42});
+            expect(mockGeminiClient.countTokens).toHaveBeenCalledWith(
+                expect.objectContaining({project: "test-project"}),
+                expect.any(AbortSignal)
+            );
+        });
+
+        it("should fall back to a local estimate when counting fails", async () => {
+            mockGeminiClient.countTokens.mockRejectedValue(
+                new Error("Not available")
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages/count_tokens")
+                .send({
+                    model: "claude-3-5-sonnet-20241022",
+                    messages: [{role: "user", content: "a".repeat(40)}],
+                });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({input_tokens: 10});
+        });
+
+        it("should reject requests without messages", async () => {
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages/count_tokens")
+                .send({model: "claude-3-5-sonnet-20241022", messages: []});
+
+            expect(response.status).toBe(400);
+            expect(response.body.error.type).toBe("invalid_request_error");
+        });
+    });
+
+    describe("error responses", () => {
+        const body = {
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 1000,
+            messages: [{role: "user", content: "Hi"}],
+        };
+
+        it("should map upstream 429 to rate_limit_error with retry-after", async () => {
+            mockGeminiClient.getCompletion.mockRejectedValue(
+                new GeminiApiError(
+                    "Quota exceeded",
+                    429,
+                    JSON.stringify({
+                        error: {
+                            details: [
+                                {
+                                    "@type":
+                                        "type.googleapis.com/google.rpc.RetryInfo",
+                                    retryDelay: "12.5s",
+                                },
+                            ],
+                        },
+                    })
+                )
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send(body);
+
+            expect(response.status).toBe(429);
+            expect(response.headers["retry-after"]).toBe("13");
+            expect(response.body).toEqual({
+                type: "error",
+                error: {
+                    type: "rate_limit_error",
+                    message: "Quota exceeded",
+                },
+            });
+        });
+
+        it("should return a JSON error when the stream fails before output", async () => {
+            // A stream that fails on its first chunk
+            mockGeminiClient.streamContent.mockReturnValue({
+                [Symbol.asyncIterator]: () => ({
+                    next: () =>
+                        Promise.reject(new GeminiApiError("Overloaded", 503)),
+                }),
+            });
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send({...body, stream: true});
+
+            expect(response.status).toBe(529);
+            expect(response.body.error.type).toBe("overloaded_error");
+        });
+
+        it("should emit an error event when the stream fails midway", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {choices: [{delta: {content: "Partial"}}]};
+                    throw new GeminiApiError("Bad gateway", 502);
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/anthropic/v1/messages")
+                .send({...body, stream: true});
+
+            expect(response.status).toBe(200);
+            expect(response.text).toContain(
+                "event: error\ndata: {\"type\":\"error\",\"error\":{\"type\":\"api_error\",\"message\":\"Bad gateway\"}}"
+            );
+        });
+    });
+
+    describe("message batches", () => {
+        let dirPath: string;
+
+        const createBatchApp = () =>
+            createApp(
+                new MessageBatchManager(mockGeminiClient, false, dirPath),
+            );
+
+        beforeEach(async () => {
+            dirPath = await fs.mkdtemp(path.join(os.tmpdir(), "batches-"));
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                content: "Hi",
+                usage: {inputTokens: 5, outputTokens: 1},
+            });
+        });
+
+        afterEach(async () => {
+            await fs.rm(dirPath, {recursive: true, force: true});
+        });
+
+        it("should create a batch and serve its results", async () => {
+            const app = createBatchApp();
+
+            const created = await request(app)
+                .post("/anthropic/v1/messages/batches")
+                .send({
+                    requests: [
+                        {
+                            custom_id: "first",
+                            params: {
+                                model: "claude-3-5-sonnet-20241022",
+                                max_tokens: 100,
+                                messages: [{role: "user", content: "Hi"}],
+                            },
+                        },
+                    ],
+                });
+
+            expect(created.status).toBe(200);
+            expect(created.body).toMatchObject({
+                type: "message_batch",
+                processing_status: "in_progress",
+            });
+
+            const batchUrl = `/anthropic/v1/messages/batches/${created.body.id}`;
+            await vi.waitFor(async () => {
+                const retrieved = await request(app).get(batchUrl);
+                expect(retrieved.body.processing_status).toBe("ended");
+                expect(retrieved.body.results_url).toMatch(
+                    new RegExp(`^http://.+${batchUrl}/results$`)
+                );
+            });
+
+            const results = await request(app).get(`${batchUrl}/results`);
+            expect(results.status).toBe(200);
+            expect(JSON.parse(results.text.trim())).toMatchObject({
+                custom_id: "first",
+                result: {type: "succeeded"},
+            });
+        });
+
+        it("should reject duplicate custom_ids", async () => {
+            const params = {
+                model: "claude-3-5-sonnet-20241022",
+                max_tokens: 100,
+                messages: [{role: "user", content: "Hi"}],
+            };
+
+            const response = await request(createBatchApp())
+                .post("/anthropic/v1/messages/batches")
+                .send({
+                    requests: [
+                        {custom_id: "same", params},
+                        {custom_id: "same", params},
+                    ],
+                });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toEqual({
+                type: "invalid_request_error",
+                message: "Duplicate custom_id: same",
+            });
+        });
+
+        it("should return not_found_error for unknown batches", async () => {
+            const response = await request(createBatchApp()).get(
+                "/anthropic/v1/messages/batches/msgbatch_missing"
+            );
+
+            expect(response.status).toBe(404);
+            expect(response.body.error.type).toBe("not_found_error");
+        });
+    });
 });
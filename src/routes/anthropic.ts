@@ -1,17 +1,34 @@
 import express from "express";
-import { GeminiApiClient } from "../gemini/client.js";
+import {createReadStream} from "node:fs";
+import {
+    GeminiApiClient,
+    RequestCancelledError,
+} from "../gemini/client.js";
+import {MessageBatchManager} from "../gemini/message-batches.js";
 import * as Anthropic from "../types/anthropic.js";
+import * as OpenAI from "../types/openai.js";
 import {
     mapAnthropicMessagesRequestToGemini,
+    mapErrorToAnthropic,
     mapGeminiResponseToAnthropic,
+    mapStopReasonToAnthropic,
+    mapStreamUsageToAnthropic,
+    resolveAnthropicMediaSources,
 } from "../gemini/anthropic-mapper.js";
+import {StopSequenceMatcher} from "../gemini/stop-sequence-matcher.js";
+import {estimateTokenCount} from "../gemini/token-estimator.js";
 import * as Gemini from "../types/gemini.js";
+import {createDisconnectSignal} from "../utils/disconnect.js";
 import { getLogger } from "../utils/logger.js";
 import chalk from "chalk";
 
 export function createAnthropicRouter(
     geminiClient: GeminiApiClient,
-    enableGoogleSearch: boolean = false
+    enableGoogleSearch: boolean = false,
+    batchManager: MessageBatchManager = new MessageBatchManager(
+        geminiClient,
+        enableGoogleSearch
+    )
 ): express.Router {
     const router = express.Router();
     const logger = getLogger("SERVER-ANTHROPIC", chalk.green);
@@ -58,10 +75,18 @@ export function createAnthropicRouter(
                 return res.status(400).json(error);
             }
 
+            // Created first, so media downloads are cancelled as well
+            const signal = createDisconnectSignal(res);
             const projectId = await geminiClient.discoverProjectId();
             const geminiRequest = mapAnthropicMessagesRequestToGemini(
                 projectId ?? undefined,
-                body,
+                {
+                    ...body,
+                    messages: await resolveAnthropicMediaSources(
+                        body.messages,
+                        signal
+                    ),
+                },
                 enableGoogleSearch
             );
             const requestId = `msg_${crypto.randomUUID()}`;
@@ -78,271 +103,512 @@ export function createAnthropicRouter(
                 res.setHeader("Access-Control-Allow-Origin", "*");
 
                 try {
-                    // Send message_start event
-                    const messageStart: Anthropic.MessageStartEvent = {
-                        type: "message_start",
-                        message: {
-                            id: requestId,
-                            type: "message",
-                            role: "assistant",
-                            content: [],
-                            model: body.model,
-                            stop_reason: "end_turn",
-                            usage: {
-                                input_tokens: 0,
-                                output_tokens: 0,
+                    // message_start is deferred until the first chunk so it
+                    // can report the prompt size counted by Gemini
+                    let messageStarted = false;
+                    let usage: OpenAI.UsageData | null = null;
+
+                    const startMessage = () => {
+                        if (messageStarted) {
+                            return;
+                        }
+                        messageStarted = true;
+                        const messageStart: Anthropic.MessageStartEvent = {
+                            type: "message_start",
+                            message: {
+                                id: requestId,
+                                type: "message",
+                                role: "assistant",
+                                content: [],
+                                model: body.model,
+                                stop_reason: "end_turn",
+                                usage: usage
+                                    ? mapStreamUsageToAnthropic(usage)
+                                    : {input_tokens: 0, output_tokens: 0},
                             },
-                        },
+                        };
+                        writeStreamEvent(res, messageStart);
                     };
-                    res.write(
-                        `event: message_start\ndata: ${JSON.stringify(
-                            messageStart
-                        )}\n\n`
+
+                    const geminiStream = geminiClient.streamContent(
+                        geminiRequest,
+                        0,
+                        false,
+                        signal
+                    );
+                    let totalContent = "";
+                    let hasToolUse = false;
+                    let finishReason: string | undefined;
+                    const stopSequenceMatcher = new StopSequenceMatcher(
+                        body.stop_sequences ?? []
                     );
 
-                    // Send content_block_start event
-                    const contentBlockStart: Anthropic.ContentBlockStartEvent =
-                        {
+                    // Content blocks are opened lazily so that thinking, text
+                    // and tool_use blocks each get their own index in the
+                    // order the model produced them
+                    let blockIndex = -1;
+                    let openBlock: Anthropic.MessageContent["type"] | undefined;
+
+                    const closeOpenBlock = () => {
+                        if (!openBlock) {
+                            return;
+                        }
+                        writeStreamEvent(res, {
+                            type: "content_block_stop",
+                            index: blockIndex,
+                        } satisfies Anthropic.ContentBlockStopEvent);
+                        openBlock = undefined;
+                    };
+
+                    const startBlock = (
+                        contentBlock: Anthropic.MessageContent
+                    ) => {
+                        closeOpenBlock();
+                        blockIndex++;
+                        openBlock = contentBlock.type;
+                        writeStreamEvent(res, {
                             type: "content_block_start",
-                            index: 0,
-                            content_block: {
-                                type: "text",
-                                text: "",
-                            },
-                        };
-                    res.write(
-                        `event: content_block_start\ndata: ${JSON.stringify(
-                            contentBlockStart
-                        )}\n\n`
-                    );
+                            index: blockIndex,
+                            content_block: contentBlock,
+                        } satisfies Anthropic.ContentBlockStartEvent);
+                    };
 
-                    const geminiStream =
-                        geminiClient.streamContent(geminiRequest);
-                    let totalContent = "";
-                    let inReasoning = false;
+                    const writeDelta = (
+                        delta: Anthropic.ContentBlockDeltaEvent["delta"]
+                    ) => {
+                        writeStreamEvent(res, {
+                            type: "content_block_delta",
+                            index: blockIndex,
+                            delta,
+                        } satisfies Anthropic.ContentBlockDeltaEvent);
+                    };
+
+                    const writeText = (text: string) => {
+                        if (!text) {
+                            return;
+                        }
+                        ensureBlock("text");
+                        totalContent += text;
+                        writeDelta({
+                            type: "text_delta",
+                            text,
+                        });
+                    };
+
+                    const ensureBlock = (type: "text" | "thinking") => {
+                        if (openBlock === type) {
+                            return;
+                        }
+                        startBlock(
+                            type === "text"
+                                ? {type: "text", text: ""}
+                                : {type: "thinking", thinking: ""}
+                        );
+                    };
 
                     for await (const chunk of geminiStream) {
                         const delta = chunk.choices[0]?.delta;
+                        usage = chunk.usage ?? usage;
+                        finishReason =
+                            chunk.choices[0]?.finish_reason ?? finishReason;
+                        startMessage();
+
+                        // Text held back for stop sequence matching belongs
+                        // before any block that follows it
+                        if (
+                            delta?.reasoning ||
+                            delta?.thought_signature ||
+                            delta?.tool_calls?.length
+                        ) {
+                            writeText(stopSequenceMatcher.flush());
+                        }
 
                         // Handle reasoning content
                         if (delta?.reasoning) {
-                            if (!inReasoning) {
-                                // Start reasoning block
-                                const reasoningStart: Anthropic.ContentBlockStartEvent =
-                                    {
-                                        type: "content_block_start",
-                                        index: 0,
-                                        content_block: {
-                                            type: "text",
-                                            text: "<thinking>\n",
-                                        },
-                                    };
-                                res.write(
-                                    `event: content_block_start\ndata: ${JSON.stringify(
-                                        reasoningStart
-                                    )}\n\n`
-                                );
-                                inReasoning = true;
-                            }
+                            ensureBlock("thinking");
+                            writeDelta({
+                                type: "thinking_delta",
+                                thinking: delta.reasoning,
+                            });
+                        }
 
-                            // Stream reasoning content
-                            const reasoningDelta: Anthropic.ContentBlockDeltaEvent =
-                                {
-                                    type: "content_block_delta",
-                                    index: 0,
-                                    delta: {
-                                        type: "text_delta",
-                                        text: delta.reasoning,
-                                    },
-                                };
-                            res.write(
-                                `event: content_block_delta\ndata: ${JSON.stringify(
-                                    reasoningDelta
-                                )}\n\n`
-                            );
+                        // The signature arrives on the part that follows the
+                        // thoughts, so it closes the current thinking block or
+                        // gets a block of its own right before that part
+                        if (delta?.thought_signature) {
+                            ensureBlock("thinking");
+                            writeDelta({
+                                type: "signature_delta",
+                                signature: delta.thought_signature,
+                            });
+                            closeOpenBlock();
                         }
 
                         // Handle regular content
                         if (delta?.content) {
-                            if (inReasoning) {
-                                // Close reasoning block before regular content
-                                const reasoningStop: Anthropic.ContentBlockDeltaEvent =
-                                    {
-                                        type: "content_block_delta",
-                                        index: 0,
-                                        delta: {
-                                            type: "text_delta",
-                                            text: "\n</thinking>\n\n",
-                                        },
-                                    };
-                                res.write(
-                                    `event: content_block_delta\ndata: ${JSON.stringify(
-                                        reasoningStop
-                                    )}\n\n`
-                                );
-                                inReasoning = false;
+                            writeText(stopSequenceMatcher.push(delta.content));
+                            if (stopSequenceMatcher.matched !== undefined) {
+                                // Discard everything after the stop sequence
+                                break;
                             }
+                        }
 
-                            const deltaText = delta.content;
-                            totalContent += deltaText;
-
-                            const contentDelta: Anthropic.ContentBlockDeltaEvent =
-                                {
-                                    type: "content_block_delta",
-                                    index: 0,
-                                    delta: {
-                                        type: "text_delta",
-                                        text: deltaText,
-                                    },
-                                };
-                            res.write(
-                                `event: content_block_delta\ndata: ${JSON.stringify(
-                                    contentDelta
-                                )}\n\n`
-                            );
+                        // Handle tool calls, each one is a complete block
+                        for (const toolCall of delta?.tool_calls ?? []) {
+                            hasToolUse = true;
+                            startBlock({
+                                type: "tool_use",
+                                id: toolCall.id,
+                                name: toolCall.function.name,
+                                input: {},
+                            });
+                            writeDelta({
+                                type: "input_json_delta",
+                                partial_json: toolCall.function.arguments,
+                            });
+                            closeOpenBlock();
                         }
                     }
 
-                    // Send content_block_stop event
-                    const contentBlockStop: Anthropic.ContentBlockStopEvent = {
-                        type: "content_block_stop",
-                        index: 0,
-                    };
-                    res.write(
-                        `event: content_block_stop\ndata: ${JSON.stringify(
-                            contentBlockStop
-                        )}\n\n`
-                    );
+                    startMessage();
+                    writeText(stopSequenceMatcher.flush());
+                    closeOpenBlock();
 
-                    // Close reasoning block if still open
-                    if (inReasoning) {
-                        const reasoningStop: Anthropic.ContentBlockDeltaEvent =
-                            {
-                                type: "content_block_delta",
-                                index: 0,
-                                delta: {
-                                    type: "text_delta",
-                                    text: "\n</thinking>\n\n",
-                                },
-                            };
-                        res.write(
-                            `event: content_block_delta\ndata: ${JSON.stringify(
-                                reasoningStop
-                            )}\n\n`
-                        );
-
-                        const reasoningBlockStop: Anthropic.ContentBlockStopEvent =
-                            {
-                                type: "content_block_stop",
-                                index: 0,
-                            };
-                        res.write(
-                            `event: content_block_stop\ndata: ${JSON.stringify(
-                                reasoningBlockStop
-                            )}\n\n`
-                        );
-                    }
+                    const stopSequence = stopSequenceMatcher.matched;
 
                     // Send message_delta event (with final usage)
                     const messageDelta: Anthropic.MessageDeltaEvent = {
                         type: "message_delta",
                         delta: {
-                            stop_reason: "end_turn",
-                        },
-                        usage: {
-                            output_tokens: Math.ceil(totalContent.length / 4), // Rough token estimate
+                            stop_reason: mapStopReasonToAnthropic(
+                                finishReason,
+                                hasToolUse,
+                                stopSequence
+                            ),
+                            ...(stopSequence !== undefined && {
+                                stop_sequence: stopSequence,
+                            }),
                         },
+                        usage: usage
+                            ? mapStreamUsageToAnthropic(usage)
+                            : {
+                                // Rough token estimate
+                                output_tokens: Math.ceil(
+                                    totalContent.length / 4
+                                ),
+                            },
                     };
-                    res.write(
-                        `event: message_delta\ndata: ${JSON.stringify(
-                            messageDelta
-                        )}\n\n`
-                    );
+                    writeStreamEvent(res, messageDelta);
 
                     // Send message_stop event
                     const messageStop: Anthropic.MessageStopEvent = {
                         type: "message_stop",
                     };
-                    res.write(
-                        `event: message_stop\ndata: ${JSON.stringify(
-                            messageStop
-                        )}\n\n`
-                    );
+                    writeStreamEvent(res, messageStop);
 
                     res.end();
                 } catch (error) {
-                    logger.error("streaming error", error);
-                    if (!res.headersSent) {
-                        const errorMessage =
-                            error instanceof Error
-                                ? error.message
-                                : "Unknown stream error";
-                        const anthropicError: Anthropic.AnthropicError = {
-                            type: "error",
-                            error: {
-                                type: "api_error",
-                                message: errorMessage,
-                            },
-                        };
-                        res.status(500).json(anthropicError);
-                    } else {
-                        res.end();
+                    // The client is gone, there is nobody to respond to
+                    if (error instanceof RequestCancelledError) {
+                        return;
                     }
+                    logger.error("streaming error", error);
+                    sendAnthropicError(res, error);
                 }
             } else {
                 // Non-streaming response
                 try {
                     const completion = await geminiClient.getCompletion(
-                        geminiRequest
+                        geminiRequest,
+                        0,
+                        false,
+                        signal
                     );
 
                     const response = mapGeminiResponseToAnthropic(
                         completion,
                         body.model,
-                        requestId
+                        requestId,
+                        body.stop_sequences
                     );
 
                     res.json(response);
                 } catch (completionError: unknown) {
-                    const errorMessage =
-                        completionError instanceof Error
-                            ? completionError.message
-                            : String(completionError);
-
+                    if (completionError instanceof RequestCancelledError) {
+                        return;
+                    }
                     logger.error("completion error", completionError);
+                    sendAnthropicError(res, completionError);
+                }
+            }
+        } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                return;
+            }
+            logger.error("completion error", error);
+            sendAnthropicError(res, error);
+        }
+    });
 
-                    const error: Anthropic.AnthropicError = {
-                        type: "error",
-                        error: {
-                            type: "api_error",
-                            message: errorMessage,
-                        },
-                    };
+    router.post("/v1/messages/count_tokens", async (req, res) => {
+        try {
+            const body = req.body as Anthropic.MessagesRequest;
+
+            if (!body.messages || body.messages.length === 0) {
+                const error: Anthropic.AnthropicError = {
+                    type: "error",
+                    error: {
+                        type: "invalid_request_error",
+                        message: "messages is required and cannot be empty",
+                    },
+                };
+                return res.status(400).json(error);
+            }
 
-                    res.status(500).json(error);
+            const signal = createDisconnectSignal(res);
+            const projectId = await geminiClient.discoverProjectId();
+            const geminiRequest = mapAnthropicMessagesRequestToGemini(
+                projectId ?? undefined,
+                {
+                    ...body,
+                    messages: await resolveAnthropicMediaSources(
+                        body.messages,
+                        signal
+                    ),
                 }
+            );
+
+            let inputTokens: number;
+            try {
+                inputTokens = await geminiClient.countTokens(
+                    geminiRequest,
+                    signal
+                );
+            } catch (countError) {
+                if (countError instanceof RequestCancelledError) {
+                    throw countError;
+                }
+                logger.warn(
+                    "countTokens failed, falling back to local estimate",
+                    countError
+                );
+                inputTokens = estimateTokenCount(geminiRequest.request);
             }
+
+            res.json({input_tokens: inputTokens});
         } catch (error) {
-            const errorMessage =
-                error instanceof Error
-                    ? error.message
-                    : "An unknown error occurred";
-            logger.error("completion error", error);
+            if (error instanceof RequestCancelledError) {
+                return;
+            }
+            logger.error("count tokens error", error);
+            sendAnthropicError(res, error);
+        }
+    });
 
-            if (!res.headersSent) {
-                const anthropicError: Anthropic.AnthropicError = {
+    router.post("/v1/messages/batches", async (req, res) => {
+        try {
+            const body = req.body as Anthropic.MessageBatchCreateRequest;
+
+            const validationError = validateBatchRequests(body?.requests);
+            if (validationError) {
+                const error: Anthropic.AnthropicError = {
                     type: "error",
                     error: {
-                        type: "api_error",
-                        message: errorMessage,
+                        type: "invalid_request_error",
+                        message: validationError,
                     },
                 };
-                res.status(500).json(anthropicError);
-            } else {
-                res.end();
+                return res.status(400).json(error);
+            }
+
+            const batch = await batchManager.create(body.requests);
+            res.json(withResultsUrl(req, batch));
+        } catch (error) {
+            logger.error("create batch error", error);
+            sendAnthropicError(res, error);
+        }
+    });
+
+    router.get("/v1/messages/batches", async (req, res) => {
+        try {
+            const limit = Number(req.query.limit ?? 20);
+            if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+                const error: Anthropic.AnthropicError = {
+                    type: "error",
+                    error: {
+                        type: "invalid_request_error",
+                        message: "limit must be an integer between 1 and 1000",
+                    },
+                };
+                return res.status(400).json(error);
+            }
+
+            const page = await batchManager.list({
+                limit,
+                beforeId: req.query.before_id as string | undefined,
+                afterId: req.query.after_id as string | undefined,
+            });
+            res.json({
+                ...page,
+                data: page.data.map((batch) => withResultsUrl(req, batch)),
+            });
+        } catch (error) {
+            logger.error("list batches error", error);
+            sendAnthropicError(res, error);
+        }
+    });
+
+    router.get("/v1/messages/batches/:batchId", async (req, res) => {
+        try {
+            const batch = await batchManager.retrieve(req.params.batchId);
+            if (!batch) {
+                return sendBatchNotFound(res, req.params.batchId);
+            }
+            res.json(withResultsUrl(req, batch));
+        } catch (error) {
+            logger.error("retrieve batch error", error);
+            sendAnthropicError(res, error);
+        }
+    });
+
+    router.post("/v1/messages/batches/:batchId/cancel", async (req, res) => {
+        try {
+            const batch = await batchManager.cancel(req.params.batchId);
+            if (!batch) {
+                return sendBatchNotFound(res, req.params.batchId);
             }
+            res.json(withResultsUrl(req, batch));
+        } catch (error) {
+            logger.error("cancel batch error", error);
+            sendAnthropicError(res, error);
+        }
+    });
+
+    router.get("/v1/messages/batches/:batchId/results", async (req, res) => {
+        try {
+            const batch = await batchManager.retrieve(req.params.batchId);
+            if (!batch) {
+                return sendBatchNotFound(res, req.params.batchId);
+            }
+
+            const resultsPath = await batchManager.getResultsPath(batch.id);
+            if (!resultsPath) {
+                const error: Anthropic.AnthropicError = {
+                    type: "error",
+                    error: {
+                        type: "invalid_request_error",
+                        message: `Batch ${batch.id} is still processing`,
+                    },
+                };
+                return res.status(400).json(error);
+            }
+
+            res.type("application/x-jsonl");
+            createReadStream(resultsPath)
+                .on("error", (error) => {
+                    logger.error("batch results error", error);
+                    if (!res.headersSent) {
+                        sendAnthropicError(res, error);
+                        return;
+                    }
+                    // Results are JSON lines, not an event stream, so the
+                    // error is reported as a last line
+                    const {error: anthropicError} = mapErrorToAnthropic(error);
+                    res.end(`${JSON.stringify(anthropicError)}\n`);
+                })
+                .pipe(res);
+        } catch (error) {
+            logger.error("batch results error", error);
+            sendAnthropicError(res, error);
         }
     });
 
     return router;
 }
+
+/**
+ * Checks the requests of a new batch, returns the error message when invalid
+ */
+const validateBatchRequests = (
+    requests: Anthropic.MessageBatchRequest[] | undefined
+): string | undefined => {
+    if (!Array.isArray(requests) || requests.length === 0) {
+        return "requests is required and cannot be empty";
+    }
+
+    const customIds = new Set<string>();
+    for (const [index, request] of requests.entries()) {
+        if (!request?.custom_id || typeof request.custom_id !== "string") {
+            return `requests.${index}.custom_id is required`;
+        }
+        if (customIds.has(request.custom_id)) {
+            return `Duplicate custom_id: ${request.custom_id}`;
+        }
+        customIds.add(request.custom_id);
+
+        if (!request.params?.messages || request.params.messages.length === 0) {
+            return `requests.${index}.params.messages is required and cannot be empty`;
+        }
+        if (!request.params.max_tokens) {
+            return `requests.${index}.params.max_tokens is required`;
+        }
+        if (request.params.stream) {
+            return `requests.${index}.params.stream is not supported in batches`;
+        }
+    }
+
+    return undefined;
+};
+
+// Batches store the results path relative to the router, clients expect an
+// absolute URL
+const withResultsUrl = (
+    req: express.Request,
+    batch: Anthropic.MessageBatch
+): Anthropic.MessageBatch => ({
+    ...batch,
+    results_url:
+        batch.results_url &&
+        `${req.protocol}://${req.get("host")}${req.baseUrl}${batch.results_url}`,
+});
+
+const sendBatchNotFound = (res: express.Response, batchId: string): void => {
+    const error: Anthropic.AnthropicError = {
+        type: "error",
+        error: {
+            type: "not_found_error",
+            message: `Batch not found: ${batchId}`,
+        },
+    };
+    res.status(404).json(error);
+};
+
+/**
+ * Sends an error as a JSON response, or as an error event when the stream
+ * has already started and the status code can no longer be changed
+ */
+const sendAnthropicError = (res: express.Response, error: unknown): void => {
+    const {statusCode, error: anthropicError, retryAfter} =
+        mapErrorToAnthropic(error);
+
+    if (res.headersSent) {
+        writeStreamEvent(res, anthropicError);
+        res.end();
+        return;
+    }
+
+    if (retryAfter !== undefined) {
+        res.setHeader("retry-after", String(retryAfter));
+    }
+    // A streaming request may already have set the event-stream content type
+    res.type("json").status(statusCode).json(anthropicError);
+};
+
+const writeStreamEvent = <
+    T extends Anthropic.StreamEvent | Anthropic.AnthropicError,
+>(
+    res: express.Response,
+    event: T
+): void => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+};
@@ -1,9 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import request from "supertest";
 import { createOpenAIRouter } from "./openai.js";
 import { GeminiApiClient } from "../gemini/client.js";
+import {ThoughtSignatureStore} from "../gemini/thought-signature-store.js";
+import * as OpenAI from "../types/openai.js";
 
 // Mock GeminiApiClient
-vi.mock("../gemini/client.js", () => ({
+vi.mock("../gemini/client.js", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("../gemini/client.js")>()),
     GeminiApiClient: vi.fn(),
 }));
 
@@ -23,6 +28,16 @@ describe("OpenAI Router", () => {
         vi.clearAllMocks();
     });
 
+    const createApp = (reasoningOutput?: OpenAI.ReasoningOutputMode) => {
+        const app = express();
+        app.use(express.json());
+        app.use(
+            "/openai",
+            createOpenAIRouter(mockGeminiClient, false, reasoningOutput),
+        );
+        return app;
+    };
+
     describe("router creation", () => {
         it("should create a router", () => {
             const router = createOpenAIRouter(mockGeminiClient);
@@ -126,4 +141,648 @@ describe("OpenAI Router", () => {
             expect(mockGeminiClient.discoverProjectId).toBeDefined();
         });
     });
+
+    describe("responses", () => {
+        const streamOf = (...contents: string[]) =>
+            (async function* () {
+                for (const content of contents) {
+                    yield {
+                        choices: [{delta: {content}, finish_reason: null}],
+                    };
+                }
+            })();
+
+        it("should return a response object", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(streamOf("Hi"));
+
+            const response = await request(createApp())
+                .post("/openai/responses")
+                .send({model: "gemini-2.5-pro", input: "Hello"});
+
+            expect(response.status).toBe(200);
+            expect(response.body).toMatchObject({
+                object: "response",
+                status: "completed",
+                model: "gemini-2.5-pro",
+                output: [
+                    {
+                        type: "message",
+                        role: "assistant",
+                        content: [{type: "output_text", text: "Hi"}],
+                    },
+                ],
+            });
+        });
+
+        it("should stream typed events", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(streamOf("Hi"));
+
+            const response = await request(createApp())
+                .post("/openai/responses")
+                .send({model: "gemini-2.5-pro", input: "Hello", stream: true});
+
+            expect(response.headers["content-type"]).toContain(
+                "text/event-stream"
+            );
+            expect(response.text).toContain("event: response.created\n");
+            expect(response.text).toContain(
+                "event: response.output_text.delta\ndata: {\"type\":\"response.output_text.delta\""
+            );
+            expect(response.text).toContain("event: response.completed\n");
+        });
+
+        it("should continue from previous_response_id", async () => {
+            const app = createApp();
+            mockGeminiClient.streamContent.mockReturnValueOnce(
+                streamOf("Nice to meet you")
+            );
+
+            const first = await request(app)
+                .post("/openai/responses")
+                .send({model: "gemini-2.5-pro", input: "I am Sam"});
+
+            mockGeminiClient.streamContent.mockReturnValueOnce(
+                streamOf("Sam")
+            );
+            const second = await request(app)
+                .post("/openai/responses")
+                .send({
+                    model: "gemini-2.5-pro",
+                    input: "What is my name?",
+                    previous_response_id: first.body.id,
+                });
+
+            expect(second.status).toBe(200);
+            const [geminiRequest] = mockGeminiClient.streamContent.mock.calls[1];
+            expect(geminiRequest.request.contents).toEqual([
+                {role: "user", parts: [{text: "I am Sam"}]},
+                {role: "model", parts: [{text: "Nice to meet you"}]},
+                {role: "user", parts: [{text: "What is my name?"}]},
+            ]);
+        });
+
+        it("should reject unknown previous_response_id", async () => {
+            const response = await request(createApp())
+                .post("/openai/responses")
+                .send({
+                    model: "gemini-2.5-pro",
+                    input: "Hello",
+                    previous_response_id: "resp_missing",
+                });
+
+            expect(response.status).toBe(404);
+            expect(response.body.error.code).toBe(
+                "previous_response_not_found"
+            );
+        });
+    });
+
+    describe("completions", () => {
+        it("should return a text completion with the echoed prompt", async () => {
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                content: "a + b",
+                finishReason: "stop",
+                choices: [],
+                usage: {inputTokens: 10, outputTokens: 3},
+            });
+
+            const response = await request(createApp())
+                .post("/openai/completions")
+                .send({
+                    model: "gemini-2.5-flash",
+                    prompt: "return ",
+                    suffix: ";",
+                    echo: true,
+                });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toMatchObject({
+                object: "text_completion",
+                choices: [
+                    {
+                        index: 0,
+                        text: "return a + b",
+                        logprobs: null,
+                        finish_reason: "stop",
+                    },
+                ],
+                usage: {
+                    prompt_tokens: 10,
+                    completion_tokens: 3,
+                    total_tokens: 13,
+                },
+            });
+            expect(response.body.id).toMatch(/^cmpl-/);
+        });
+
+        it("should stream text_completion chunks", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {
+                        choices: [
+                            {delta: {reasoning: "Hmm"}, finish_reason: null},
+                        ],
+                    };
+                    yield {
+                        choices: [
+                            {delta: {content: "a + b"}, finish_reason: null},
+                        ],
+                    };
+                    yield {choices: [{delta: {}, finish_reason: "length"}]};
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/openai/completions")
+                .send({
+                    model: "gemini-2.5-flash",
+                    prompt: "return ",
+                    stream: true,
+                });
+
+            const chunks = response.text
+                .split("\n\n")
+                .filter((line) => line.startsWith("data: {"))
+                .map((line) => JSON.parse(line.slice("data: ".length)));
+            expect(
+                chunks.map((chunk) => [
+                    chunk.object,
+                    chunk.choices[0].text,
+                    chunk.choices[0].finish_reason,
+                ])
+            ).toEqual([
+                ["text_completion", "a + b", null],
+                ["text_completion", "", "length"],
+            ]);
+            expect(response.text).toContain("data: [DONE]");
+        });
+
+        it("should reject multiple prompts", async () => {
+            const response = await request(createApp())
+                .post("/openai/completions")
+                .send({model: "gemini-2.5-flash", prompt: ["a", "b"]});
+
+            expect(response.status).toBe(400);
+            expect(response.body.error.param).toBe("prompt");
+        });
+    });
+
+    describe("reasoning output", () => {
+        const body = {
+            model: "gemini-2.5-pro",
+            messages: [{role: "user", content: "Hi"}],
+        };
+
+        beforeEach(() => {
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                choices: [
+                    {index: 0, content: "Hello", reasoning: "Greeting"},
+                ],
+                usage: {inputTokens: 10, outputTokens: 5, thoughtTokens: 20},
+            });
+        });
+
+        it("should return reasoning_content by default", async () => {
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send(body);
+
+            expect(response.body.choices[0].message).toMatchObject({
+                content: "Hello",
+                reasoning_content: "Greeting",
+            });
+            expect(response.body.usage).toMatchObject({
+                completion_tokens: 5,
+                total_tokens: 35,
+                completion_tokens_details: {reasoning_tokens: 20},
+            });
+        });
+
+        it("should use the mode of the request header", async () => {
+            const response = await request(createApp("hidden"))
+                .post("/openai/chat/completions")
+                .set("x-reasoning-output", "inline")
+                .send(body);
+
+            expect(response.body.choices[0].message.content).toBe(
+                "<thinking>\nGreeting\n</thinking>\n\nHello"
+            );
+            expect(
+                response.body.choices[0].message.reasoning_content
+            ).toBeUndefined();
+        });
+
+        it("should reject unknown modes", async () => {
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .set("x-reasoning-output", "tags")
+                .send(body);
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should stream reasoning_content deltas", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {
+                        choices: [
+                            {
+                                index: 0,
+                                delta: {reasoning: "Greeting"},
+                                finish_reason: null,
+                            },
+                        ],
+                    };
+                    yield {
+                        choices: [
+                            {
+                                index: 0,
+                                delta: {content: "Hello"},
+                                finish_reason: "stop",
+                            },
+                        ],
+                    };
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({...body, stream: true});
+
+            const deltas = response.text
+                .split("\n\n")
+                .filter((line) => line.startsWith("data: {"))
+                .map(
+                    (line) =>
+                        JSON.parse(line.slice("data: ".length)).choices[0]
+                            .delta
+                );
+            expect(deltas).toEqual([
+                {reasoning_content: "Greeting"},
+                {content: "Hello"},
+            ]);
+        });
+
+        it("should not stream thought signatures", async () => {
+            mockGeminiClient.thoughtSignatures = new ThoughtSignatureStore();
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {
+                        choices: [
+                            {
+                                index: 0,
+                                delta: {
+                                    content: "Hello",
+                                    thought_signature: "sig-text",
+                                },
+                                finish_reason: "stop",
+                            },
+                        ],
+                    };
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({...body, stream: true});
+
+            expect(response.text).toContain("\"content\":\"Hello\"");
+            expect(response.text).not.toContain("thought_signature");
+            expect(response.text).not.toContain("sig-text");
+        });
+    });
+
+    describe("media content", () => {
+        it("should reject unsupported media with 400", async () => {
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({
+                    model: "gemini-2.5-pro",
+                    messages: [
+                        {
+                            role: "user",
+                            content: [
+                                {type: "file", file: {file_id: "file-1"}},
+                            ],
+                        },
+                    ],
+                });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error.message).toContain("file_id");
+            expect(mockGeminiClient.getCompletion).not.toHaveBeenCalled();
+        });
+
+        it("should reject unknown content part types with 400", async () => {
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({
+                    model: "gemini-2.5-pro",
+                    messages: [
+                        {
+                            role: "user",
+                            content: [{type: "video_url", text: "clip"}],
+                        },
+                    ],
+                });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toEqual({
+                message: "Unsupported content part type: video_url",
+                type: "invalid_request_error",
+                code: 400,
+            });
+            expect(mockGeminiClient.getCompletion).not.toHaveBeenCalled();
+        });
+
+        it("should sign text turns that follow remote images", async () => {
+            const originalFetch = global.fetch;
+            global.fetch = vi.fn().mockImplementation(
+                async () =>
+                    new Response(new Uint8Array([0x89, 0x50, 0x4e, 0x47])),
+            );
+            mockGeminiClient.thoughtSignatures = new ThoughtSignatureStore();
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                content: "A cat",
+                thoughtSignature: "sig-text",
+                choices: [{index: 0, content: "A cat", finishReason: "stop"}],
+            });
+            const imageTurn = {
+                role: "user",
+                content: [
+                    {
+                        type: "image_url",
+                        image_url: {url: "https://example.com/cat.png"},
+                    },
+                ],
+            };
+
+            try {
+                await request(createApp())
+                    .post("/openai/chat/completions")
+                    .send({model: "gemini-2.5-pro", messages: [imageTurn]});
+                await request(createApp())
+                    .post("/openai/chat/completions")
+                    .send({
+                        model: "gemini-2.5-pro",
+                        messages: [
+                            imageTurn,
+                            {role: "assistant", content: "A cat"},
+                            {role: "user", content: "What color?"},
+                        ],
+                    });
+            } finally {
+                global.fetch = originalFetch;
+            }
+
+            const followUp = mockGeminiClient.getCompletion.mock.calls[1][0];
+            expect(followUp.request.contents[1]).toEqual({
+                role: "model",
+                parts: [{text: "A cat", thoughtSignature: "sig-text"}],
+            });
+        });
+    });
+
+    describe("response_format", () => {
+        const body = {
+            model: "gemini-2.5-pro",
+            messages: [{role: "user", content: "Extract"}],
+            response_format: {type: "json_object"},
+        };
+
+        it("should return JSON content without reasoning tags", async () => {
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                choices: [
+                    {
+                        index: 0,
+                        content: JSON.stringify({name: "Ada"}),
+                        reasoning: "Looking for names",
+                    },
+                ],
+            });
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send(body);
+
+            expect(response.body.choices[0].message.content).toBe(
+                JSON.stringify({name: "Ada"})
+            );
+            expect(response.body.choices[0].message.refusal).toBeUndefined();
+        });
+
+        it("should set refusal when the output is not JSON", async () => {
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                choices: [{index: 0, content: "Sorry, no JSON today"}],
+            });
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send(body);
+
+            expect(response.body.choices[0].message).toMatchObject({
+                content: null,
+                refusal: expect.stringContaining("valid JSON"),
+            });
+        });
+
+        it("should stream a refusal before the final chunk", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {
+                        choices: [
+                            {
+                                delta: {content: "not json"},
+                                finish_reason: null,
+                            },
+                        ],
+                    };
+                    yield {choices: [{delta: {}, finish_reason: "stop"}]};
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({...body, stream: true});
+
+            const chunks = response.text
+                .split("\n\n")
+                .filter((line) => line.startsWith("data: {"))
+                .map((line) => JSON.parse(line.slice("data: ".length)));
+            expect(chunks.map((chunk) => chunk.choices[0].delta)).toEqual([
+                {content: "not json"},
+                {refusal: expect.stringContaining("valid JSON")},
+                {},
+            ]);
+        });
+    });
+
+    describe("multiple choices", () => {
+        it("should return one choice per candidate", async () => {
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                choices: [
+                    {index: 0, content: "Red"},
+                    {index: 1, content: "Blue"},
+                ],
+            });
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({
+                    model: "gemini-2.5-pro",
+                    messages: [{role: "user", content: "Color?"}],
+                    n: 2,
+                });
+
+            expect(response.body.choices).toEqual([
+                {
+                    index: 0,
+                    message: {role: "assistant", content: "Red"},
+                    finish_reason: "stop",
+                },
+                {
+                    index: 1,
+                    message: {role: "assistant", content: "Blue"},
+                    finish_reason: "stop",
+                },
+            ]);
+            const [geminiRequest] = mockGeminiClient.getCompletion.mock.calls[0];
+            expect(geminiRequest.request.generationConfig.candidateCount).toBe(2);
+        });
+    });
+
+    describe("parallel_tool_calls", () => {
+        const toolCall = (index: number) => ({
+            index,
+            id: `call_${index}`,
+            type: "function",
+            function: {name: "lookup", arguments: "{}"},
+        });
+
+        it("should return only the first tool call when disabled", async () => {
+            const toolCalls = [toolCall(0), toolCall(1), toolCall(2)];
+            mockGeminiClient.thoughtSignatures = new ThoughtSignatureStore();
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                content: "",
+                tool_calls: toolCalls,
+                choices: [
+                    {
+                        index: 0,
+                        content: "",
+                        tool_calls: toolCalls,
+                        finishReason: "tool_calls",
+                    },
+                ],
+            });
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({
+                    model: "gemini-2.5-pro",
+                    messages: [{role: "user", content: "Look up"}],
+                    parallel_tool_calls: false,
+                });
+
+            expect(response.body.choices[0].message.tool_calls).toEqual([
+                toolCall(0),
+            ]);
+        });
+
+        it("should stream only the first tool call when disabled", async () => {
+            mockGeminiClient.streamContent.mockReturnValue(
+                (async function* () {
+                    yield {
+                        choices: [
+                            {
+                                index: 0,
+                                delta: {tool_calls: [toolCall(0)]},
+                                finish_reason: null,
+                            },
+                        ],
+                    };
+                    yield {
+                        choices: [
+                            {
+                                index: 0,
+                                delta: {tool_calls: [toolCall(1)]},
+                                finish_reason: null,
+                            },
+                        ],
+                    };
+                    yield {
+                        choices: [
+                            {index: 0, delta: {}, finish_reason: "tool_calls"},
+                        ],
+                    };
+                })()
+            );
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({
+                    model: "gemini-2.5-pro",
+                    messages: [{role: "user", content: "Look up"}],
+                    stream: true,
+                    parallel_tool_calls: false,
+                });
+
+            const toolCalls = response.text
+                .split("\n\n")
+                .filter((line) => line.startsWith("data: {"))
+                .flatMap(
+                    (line) =>
+                        JSON.parse(line.slice("data: ".length)).choices[0].delta
+                            .tool_calls ?? []
+                );
+            expect(toolCalls).toEqual([toolCall(0)]);
+        });
+    });
+
+    describe("legacy functions", () => {
+        it("should answer with function_call", async () => {
+            const toolCalls = [0, 1].map((index) => ({
+                index,
+                id: `call_${index}`,
+                type: "function",
+                function: {name: "get_weather", arguments: "{}"},
+            }));
+            mockGeminiClient.thoughtSignatures = {get: vi.fn()};
+            mockGeminiClient.getCompletion.mockResolvedValue({
+                content: "",
+                tool_calls: toolCalls,
+                choices: [
+                    {
+                        index: 0,
+                        content: "",
+                        tool_calls: toolCalls,
+                        finishReason: "tool_calls",
+                    },
+                ],
+            });
+
+            const response = await request(createApp())
+                .post("/openai/chat/completions")
+                .send({
+                    model: "gemini-2.5-pro",
+                    messages: [{role: "user", content: "Weather?"}],
+                    functions: [
+                        {
+                            name: "get_weather",
+                            description: "Weather",
+                            parameters: {type: "object"},
+                        },
+                    ],
+                });
+
+            expect(response.body.choices[0]).toEqual({
+                index: 0,
+                message: {
+                    role: "assistant",
+                    content: null,
+                    function_call: {name: "get_weather", arguments: "{}"},
+                },
+                finish_reason: "function_call",
+            });
+        });
+    });
 });
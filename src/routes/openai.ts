@@ -1,17 +1,49 @@
 import express from "express";
-import { GeminiApiClient, GeminiApiError } from "../gemini/client.js";
+import {
+    GeminiApiClient,
+    GeminiApiError,
+    RequestCancelledError,
+    type CompletionChoice,
+} from "../gemini/client.js";
 import * as Gemini from "../types/gemini.js";
 import * as OpenAI from "../types/openai.js";
-import { mapOpenAIChatCompletionRequestToGemini } from "../gemini/openai-mapper.js";
+import {
+    applyReasoningOutputToDelta,
+    getJsonOutputRefusal,
+    limitToolCalls,
+    mapOpenAIChatCompletionRequestToGemini,
+    mapReasoningToMessage,
+    mapStreamChoiceToLegacyFunctionCall,
+    parseReasoningOutputMode,
+    REASONING_OUTPUT_MODES,
+    resolveOpenAIMediaSources,
+    usesLegacyFunctions,
+} from "../gemini/openai-mapper.js";
+import {MediaResolutionError} from "../gemini/media-resolver.js";
+import {
+    getCompletionPrompt,
+    mapCompletionRequestToChatCompletion,
+} from "../gemini/completions-mapper.js";
+import {
+    mapResponseInputToChatMessages,
+    mapResponsesRequestToChatCompletion,
+    ResponseStreamBuilder,
+} from "../gemini/responses-mapper.js";
+import {ResponseStore} from "../gemini/response-store.js";
+import {estimateTokenCount} from "../gemini/token-estimator.js";
+import {DEFAULT_REASONING_OUTPUT} from "../utils/constant.js";
+import {createDisconnectSignal} from "../utils/disconnect.js";
 import { getLogger } from "../utils/logger.js";
 import chalk from "chalk";
 
 export function createOpenAIRouter(
     geminiClient: GeminiApiClient,
     enableGoogleSearch: boolean = false,
+    reasoningOutput: OpenAI.ReasoningOutputMode = DEFAULT_REASONING_OUTPUT,
 ): express.Router {
     const router = express.Router();
     const logger = getLogger("SERVER-OPENAI", chalk.green);
+    const responseStore = new ResponseStore();
 
     router.get("/models", (_req, res) => {
         // Create array with proper type to allow both Model enum and "auto"
@@ -49,6 +81,30 @@ export function createOpenAIRouter(
                     .status(400)
                     .json({ error: "messages is a required field" });
             }
+            // Clients can pick where thoughts go per request
+            const reasoningHeader = req.get("x-reasoning-output");
+            const requestedReasoningOutput = reasoningHeader
+                ? parseReasoningOutputMode(reasoningHeader)
+                : reasoningOutput;
+            if (!requestedReasoningOutput) {
+                return res.status(400).json({
+                    error: `x-reasoning-output must be one of ${REASONING_OUTPUT_MODES.join(
+                        ", ",
+                    )}`,
+                });
+            }
+            // Inline thoughts would make JSON output unparseable
+            const reasoningOutputMode =
+                requestedReasoningOutput === "inline" &&
+                isJsonResponseFormat(body.response_format)
+                    ? "hidden"
+                    : requestedReasoningOutput;
+            // Legacy clients get a single function_call instead of tool_calls
+            const legacyFunctions = usesLegacyFunctions(body);
+            const parallelToolCalls = legacyFunctions
+                ? false
+                : body.parallel_tool_calls;
+            const signal = createDisconnectSignal(res);
             const projectId = await geminiClient.discoverProjectId();
 
             // Intelligent Model Passthrough: Check if a specific model was requested
@@ -57,12 +113,17 @@ export function createOpenAIRouter(
                 body.model && body.model !== "auto" && body.model.trim() !== "",
             );
 
+            // Signatures are stored and looked up under the resolved messages
+            const messages = await resolveOpenAIMediaSources(
+                body.messages,
+                signal,
+            );
             const geminiCompletionRequest =
                 mapOpenAIChatCompletionRequestToGemini(
                     projectId ?? undefined,
-                    body,
+                    {...body, messages},
                     enableGoogleSearch,
-                    geminiClient.lastThoughtSignature, // Pass the last thought signature
+                    geminiClient.thoughtSignatures,
                 );
 
             if (body.stream) {
@@ -85,25 +146,124 @@ export function createOpenAIRouter(
                             geminiCompletionRequest,
                             0, // retryCount
                             isExplicitModelRequest, // Pass explicit model request flag
+                            signal,
                         );
                         for await (const chunk of geminiStream) {
                             await writer.write(chunk);
                         }
                         await writer.close();
                     } catch (error) {
-                        logger.error("stream error", error);
+                        if (!(error instanceof RequestCancelledError)) {
+                            logger.error("stream error", error);
+                        }
                         await writer.abort(error);
                     }
                 })();
 
+                // Streamed output per choice, to check JSON response formats
+                const contents = new Map<number, string>();
+                const choicesWithToolCalls = new Set<number>();
+                const openThinking = new Set<number>();
+                let textSignature: string | undefined;
+                let legacyCallId: string | undefined;
                 while (true) {
                     const { done, value } = await reader.read();
                     if (done) {
+                        // Only the first choice continues the conversation.
+                        // function_call answers have no id to be found by,
+                        // so they are signed like text turns
+                        const signature = legacyCallId
+                            ? geminiClient.thoughtSignatures.get(legacyCallId)
+                            : choicesWithToolCalls.has(0)
+                                ? undefined
+                                : textSignature;
+                        if (signature) {
+                            geminiClient.thoughtSignatures.setForConversation(
+                                [
+                                    ...messages,
+                                    {
+                                        role: "assistant",
+                                        content: contents.get(0) ?? "",
+                                    },
+                                ],
+                                signature,
+                            );
+                        }
                         res.write("data: [DONE]\n\n");
                         res.end();
                         break;
                     }
-                    res.write(`data: ${JSON.stringify(value)}\n\n`);
+                    // The client attaches running usage to every chunk, but
+                    // OpenAI only reports it on the final one
+                    const chunk = value as OpenAI.StreamChunk;
+                    const isFinalChunk = chunk.choices.some(
+                        (choice) => choice.finish_reason,
+                    );
+                    if (!isFinalChunk) {
+                        chunk.usage = null;
+                    }
+
+                    // Content was already streamed, so invalid JSON can only
+                    // be flagged with a refusal right before the final chunk
+                    const refusals: OpenAI.StreamChoice[] = [];
+                    for (const choice of chunk.choices) {
+                        choice.delta.tool_calls = limitToolCalls(
+                            choice.delta.tool_calls,
+                            parallelToolCalls,
+                        );
+                        contents.set(
+                            choice.index,
+                            (contents.get(choice.index) ?? "") +
+                                (choice.delta.content ?? ""),
+                        );
+                        if (choice.delta.tool_calls?.length) {
+                            choicesWithToolCalls.add(choice.index);
+                            if (legacyFunctions && choice.index === 0) {
+                                legacyCallId ??= choice.delta.tool_calls[0].id;
+                            }
+                        } else if (
+                            choice.index === 0 &&
+                            choice.delta.thought_signature
+                        ) {
+                            textSignature = choice.delta.thought_signature;
+                        }
+
+                        const refusal =
+                            choice.finish_reason &&
+                            !choicesWithToolCalls.has(choice.index)
+                                ? getJsonOutputRefusal(
+                                    contents.get(choice.index),
+                                    body.response_format,
+                                )
+                                : undefined;
+                        if (refusal) {
+                            refusals.push({
+                                index: choice.index,
+                                delta: {refusal},
+                                finish_reason: null,
+                            });
+                        }
+                        applyReasoningOutputToDelta(
+                            choice,
+                            reasoningOutputMode,
+                            openThinking,
+                        );
+                        if (legacyFunctions) {
+                            mapStreamChoiceToLegacyFunctionCall(choice);
+                        }
+                    }
+                    if (refusals.length > 0) {
+                        const refusalChunk: OpenAI.StreamChunk = {
+                            ...chunk,
+                            choices: refusals,
+                            usage: null,
+                        };
+                        res.write(
+                            `data: ${JSON.stringify(refusalChunk)}\n\n`,
+                        );
+                    }
+
+                    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
                 }
             } else {
                 // Non-streaming response
@@ -112,41 +272,29 @@ export function createOpenAIRouter(
                         geminiCompletionRequest,
                         0, // retryCount
                         isExplicitModelRequest, // Pass explicit model request flag
+                        signal,
                     );
 
-                    // Build message content - include reasoning if present
-                    let messageContent: string | null =
-                        completion.content || null;
-                    if (completion.reasoning) {
-                        // If reasoning is present, prepend it with thinking tags
-                        messageContent = `<thinking>\n${
-                            completion.reasoning
-                        }\n</thinking>\n\n${completion.content || ""}`;
-                    }
-
                     const response: OpenAI.ChatCompletionResponse = {
                         id: `chatcmpl-${crypto.randomUUID()}`,
                         object: "chat.completion",
                         created: Math.floor(Date.now() / 1000),
                         model: geminiCompletionRequest.model, // Use the actual model that was used
-                        choices: [
-                            {
-                                index: 0,
-                                message: {
-                                    role: "assistant",
-                                    content: messageContent,
-                                    tool_calls: completion.tool_calls,
+                        // One choice per candidate when n > 1
+                        choices: completion.choices.map((choice) =>
+                            mapCompletionChoiceToOpenAI(
+                                {
+                                    ...choice,
+                                    tool_calls: limitToolCalls(
+                                        choice.tool_calls,
+                                        parallelToolCalls,
+                                    ),
                                 },
-                                finish_reason:
-                                    (completion.tool_calls &&
-                                        completion.tool_calls.length > 0) ||
-                                    (completion.tool_calls &&
-                                        completion.tool_calls.length > 0 &&
-                                        geminiClient.lastThoughtSignature)
-                                        ? "tool_calls"
-                                        : "stop",
-                            },
-                        ],
+                                body.response_format,
+                                reasoningOutputMode,
+                                legacyFunctions,
+                            ),
+                        ),
                     };
 
                     // Add usage information if available
@@ -156,12 +304,49 @@ export function createOpenAIRouter(
                             completion_tokens: completion.usage.outputTokens,
                             total_tokens:
                                 completion.usage.inputTokens +
-                                completion.usage.outputTokens,
+                                completion.usage.outputTokens +
+                                (completion.usage.thoughtTokens ?? 0),
+                            prompt_tokens_details: {
+                                cached_tokens:
+                                    completion.usage.cachedTokens ?? 0,
+                            },
+                            completion_tokens_details: {
+                                reasoning_tokens:
+                                    completion.usage.thoughtTokens ?? 0,
+                            },
                         };
                     }
 
+                    // Only the first choice continues the conversation.
+                    // function_call answers have no id to be found by, so
+                    // they are signed like text turns
+                    const legacyCallId = legacyFunctions
+                        ? completion.tool_calls?.[0]?.id
+                        : undefined;
+                    const signature = legacyCallId
+                        ? geminiClient.thoughtSignatures.get(legacyCallId)
+                        : completion.tool_calls?.length
+                            ? undefined
+                            : completion.thoughtSignature;
+                    if (signature) {
+                        geminiClient.thoughtSignatures.setForConversation(
+                            [
+                                ...messages,
+                                {
+                                    role: "assistant",
+                                    content: completion.content,
+                                },
+                            ],
+                            signature,
+                        );
+                    }
+
                     res.json(response);
                 } catch (completionError: unknown) {
+                    // The client is gone, there is nobody to respond to
+                    if (completionError instanceof RequestCancelledError) {
+                        return;
+                    }
                     logger.error("completion error", completionError);
 
                     let statusCode = 500;
@@ -198,6 +383,9 @@ export function createOpenAIRouter(
                 }
             }
         } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                return;
+            }
             logger.error("completion error", error);
 
             let statusCode = 500;
@@ -217,19 +405,384 @@ export function createOpenAIRouter(
                         // ignore parsing error
                     }
                 }
+            } else if (error instanceof MediaResolutionError) {
+                statusCode = 400;
+                errorMessage = error.message;
+                errorDetails = {
+                    message: error.message,
+                    type: "invalid_request_error",
+                    code: statusCode,
+                };
             } else if (error instanceof Error) {
                 errorMessage = error.message;
             } else {
                 errorMessage = String(error);
             }
 
+            const errorBody = {
+                error: errorDetails || {
+                    message: errorMessage,
+                    code: statusCode,
+                },
+            };
             if (!res.headersSent) {
-                res.status(statusCode).json({
-                    error: errorDetails || {
-                        message: errorMessage,
-                        code: statusCode,
+                res.status(statusCode).json(errorBody);
+            } else {
+                // Errors after the stream started are sent as a final event
+                res.write(`data: ${JSON.stringify(errorBody)}\n\n`);
+                res.end();
+            }
+        }
+    });
+
+    router.post("/completions", async (req, res) => {
+        try {
+            const body = req.body as OpenAI.CompletionRequest;
+            const prompt = getCompletionPrompt(body);
+            if (prompt === undefined) {
+                return res.status(400).json({
+                    error: {
+                        message:
+                            "prompt must be a string or an array with a single string",
+                        type: "invalid_request_error",
+                        param: "prompt",
+                        code: null,
+                    },
+                });
+            }
+
+            const projectId = await geminiClient.discoverProjectId();
+            const isExplicitModelRequest = Boolean(
+                body.model && body.model !== "auto" && body.model.trim() !== "",
+            );
+            const geminiCompletionRequest =
+                mapOpenAIChatCompletionRequestToGemini(
+                    projectId ?? undefined,
+                    mapCompletionRequestToChatCompletion(body),
+                );
+            const signal = createDisconnectSignal(res);
+            const id = `cmpl-${crypto.randomUUID()}`;
+            const created = Math.floor(Date.now() / 1000);
+
+            const createResponse = (
+                text: string,
+                finishReason: string | null,
+            ): OpenAI.TextCompletionResponse => ({
+                id,
+                object: "text_completion",
+                created,
+                model: geminiCompletionRequest.model,
+                choices: [
+                    {
+                        index: 0,
+                        text,
+                        logprobs: null,
+                        finish_reason: finishReason,
+                    },
+                ],
+            });
+            // echo returns the prompt in front of the completion
+            const echo = body.echo ? prompt : "";
+
+            if (body.stream) {
+                res.setHeader("Content-Type", "text/event-stream");
+                res.setHeader("Cache-Control", "no-cache");
+                res.setHeader("Connection", "keep-alive");
+
+                const writeChunk = (
+                    text: string,
+                    finishReason: string | null = null,
+                ) =>
+                    res.write(
+                        `data: ${JSON.stringify(createResponse(text, finishReason))}\n\n`,
+                    );
+
+                if (echo) {
+                    writeChunk(echo);
+                }
+                for await (const chunk of geminiClient.streamContent(
+                    geminiCompletionRequest,
+                    0, // retryCount
+                    isExplicitModelRequest,
+                    signal,
+                )) {
+                    // Reasoning is not part of the completed text
+                    const choice = chunk.choices[0];
+                    if (choice?.delta.content || choice?.finish_reason) {
+                        writeChunk(
+                            choice.delta.content ?? "",
+                            choice.finish_reason,
+                        );
+                    }
+                }
+                res.write("data: [DONE]\n\n");
+                res.end();
+            } else {
+                const completion = await geminiClient.getCompletion(
+                    geminiCompletionRequest,
+                    0, // retryCount
+                    isExplicitModelRequest,
+                    signal,
+                );
+
+                const response = createResponse(
+                    echo + completion.content,
+                    completion.finishReason ?? "stop",
+                );
+                if (completion.usage) {
+                    response.usage = {
+                        prompt_tokens: completion.usage.inputTokens,
+                        completion_tokens: completion.usage.outputTokens,
+                        total_tokens:
+                            completion.usage.inputTokens +
+                            completion.usage.outputTokens +
+                            (completion.usage.thoughtTokens ?? 0),
+                    };
+                }
+                res.json(response);
+            }
+        } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                return;
+            }
+            logger.error("completions error", error);
+            const {statusCode, error: responseError} =
+                mapErrorToResponseError(error);
+            if (!res.headersSent) {
+                res.status(statusCode).json({error: responseError});
+            } else {
+                res.write(
+                    `data: ${JSON.stringify({error: responseError})}\n\n`,
+                );
+                res.end();
+            }
+        }
+    });
+
+    router.post("/count_tokens", async (req, res) => {
+        try {
+            const body = req.body as OpenAI.ChatCompletionRequest;
+            if (!body.messages?.length) {
+                return res
+                    .status(400)
+                    .json({error: "messages is a required field"});
+            }
+            const signal = createDisconnectSignal(res);
+            const projectId = await geminiClient.discoverProjectId();
+            const geminiCompletionRequest =
+                mapOpenAIChatCompletionRequestToGemini(projectId ?? undefined, {
+                    ...body,
+                    messages: await resolveOpenAIMediaSources(
+                        body.messages,
+                        signal,
+                    ),
+                });
+
+            let inputTokens: number;
+            try {
+                inputTokens = await geminiClient.countTokens(
+                    geminiCompletionRequest,
+                    signal,
+                );
+            } catch (countError) {
+                if (countError instanceof RequestCancelledError) {
+                    throw countError;
+                }
+                logger.warn(
+                    "countTokens failed, falling back to local estimate",
+                    countError,
+                );
+                inputTokens = estimateTokenCount(
+                    geminiCompletionRequest.request,
+                );
+            }
+
+            res.json({
+                object: "token_count",
+                model: geminiCompletionRequest.model,
+                input_tokens: inputTokens,
+            });
+        } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                return;
+            }
+            logger.error("count tokens error", error);
+            const statusCode =
+                error instanceof MediaResolutionError ? 400 : 500;
+            res.status(statusCode).json({
+                error: {
+                    message:
+                        error instanceof Error
+                            ? error.message
+                            : String(error),
+                    code: statusCode,
+                },
+            });
+        }
+    });
+
+    router.post("/responses", async (req, res) => {
+        try {
+            const body = req.body as OpenAI.ResponsesRequest;
+            if (!body.input?.length) {
+                return res.status(400).json({
+                    error: {
+                        message: "input is a required field",
+                        type: "invalid_request_error",
+                        param: "input",
+                        code: null,
                     },
                 });
+            }
+
+            let history: OpenAI.ChatMessage[] = [];
+            if (body.previous_response_id) {
+                const previous = responseStore.get(body.previous_response_id);
+                if (!previous) {
+                    return res.status(404).json({
+                        error: {
+                            message: `Previous response with id '${body.previous_response_id}' not found.`,
+                            type: "invalid_request_error",
+                            param: "previous_response_id",
+                            code: "previous_response_not_found",
+                        },
+                    });
+                }
+                history = previous;
+            }
+
+            const signal = createDisconnectSignal(res);
+            const projectId = await geminiClient.discoverProjectId();
+            const isExplicitModelRequest = Boolean(
+                body.model && body.model !== "auto" && body.model.trim() !== "",
+            );
+            const chatRequest = mapResponsesRequestToChatCompletion(
+                body,
+                history,
+            );
+            // Signatures are stored and looked up under the resolved messages
+            const messages = await resolveOpenAIMediaSources(
+                chatRequest.messages,
+                signal,
+            );
+            const geminiCompletionRequest =
+                mapOpenAIChatCompletionRequestToGemini(
+                    projectId ?? undefined,
+                    {...chatRequest, messages},
+                    enableGoogleSearch,
+                    geminiClient.thoughtSignatures,
+                );
+
+            const store = body.store ?? true;
+            const builder = new ResponseStreamBuilder(
+                {
+                    id: `resp_${crypto.randomUUID()}`,
+                    object: "response",
+                    created_at: Math.floor(Date.now() / 1000),
+                    status: "in_progress",
+                    model: geminiCompletionRequest.model,
+                    output: [],
+                    instructions: body.instructions ?? null,
+                    previous_response_id: body.previous_response_id ?? null,
+                    tools: body.tools ?? [],
+                    tool_choice: body.tool_choice ?? "auto",
+                    temperature: body.temperature ?? null,
+                    max_output_tokens: body.max_output_tokens ?? null,
+                    reasoning: body.reasoning ?? null,
+                    store,
+                    metadata: body.metadata ?? {},
+                    usage: null,
+                    incomplete_details: null,
+                    error: null,
+                },
+                (event) => {
+                    if (body.stream) {
+                        res.write(
+                            `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+                        );
+                    }
+                },
+            );
+
+            if (body.stream) {
+                res.setHeader("Content-Type", "text/event-stream");
+                res.setHeader("Cache-Control", "no-cache");
+                res.setHeader("Connection", "keep-alive");
+            }
+            builder.start();
+
+            let textSignature: string | undefined;
+            try {
+                const geminiStream = geminiClient.streamContent(
+                    geminiCompletionRequest,
+                    0, // retryCount
+                    isExplicitModelRequest,
+                    signal,
+                );
+                for await (const chunk of geminiStream) {
+                    for (const choice of chunk.choices) {
+                        choice.delta.tool_calls = limitToolCalls(
+                            choice.delta.tool_calls,
+                            body.parallel_tool_calls,
+                        );
+                        if (
+                            choice.index === 0 &&
+                            choice.delta.thought_signature &&
+                            !choice.delta.tool_calls
+                        ) {
+                            textSignature = choice.delta.thought_signature;
+                        }
+                    }
+                    builder.push(chunk);
+                }
+            } catch (streamError) {
+                if (!body.stream) {
+                    throw streamError;
+                }
+                if (streamError instanceof RequestCancelledError) {
+                    return res.end();
+                }
+                logger.error("responses stream error", streamError);
+                const {error} = mapErrorToResponseError(streamError);
+                builder.fail({code: error.code, message: error.message});
+                return res.end();
+            }
+
+            const response = builder.complete();
+            const output = mapResponseInputToChatMessages(response.output);
+            const lastOutput = output.at(-1);
+            if (
+                textSignature &&
+                lastOutput?.role === "assistant" &&
+                !lastOutput.tool_calls?.length
+            ) {
+                geminiClient.thoughtSignatures.setForConversation(
+                    [...messages, ...output],
+                    textSignature,
+                );
+            }
+            if (store) {
+                responseStore.set(response.id, [
+                    ...history,
+                    ...mapResponseInputToChatMessages(body.input),
+                    ...output,
+                ]);
+            }
+
+            if (body.stream) {
+                res.end();
+            } else {
+                res.json(response);
+            }
+        } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                return;
+            }
+            logger.error("responses error", error);
+            const {statusCode, error: responseError} =
+                mapErrorToResponseError(error);
+            if (!res.headersSent) {
+                res.status(statusCode).json({error: responseError});
             } else {
                 res.end();
             }
@@ -238,3 +791,87 @@ export function createOpenAIRouter(
 
     return router;
 }
+
+const mapCompletionChoiceToOpenAI = (
+    choice: CompletionChoice,
+    responseFormat: OpenAI.ResponseFormat | undefined,
+    reasoningOutput: OpenAI.ReasoningOutputMode,
+    legacyFunctions: boolean,
+): OpenAI.ChatCompletionChoice => {
+    const refusal = choice.tool_calls?.length
+        ? undefined
+        : getJsonOutputRefusal(choice.content, responseFormat);
+    const message = refusal
+        ? {content: null}
+        : mapReasoningToMessage(
+            choice.content || null,
+            choice.reasoning,
+            reasoningOutput,
+        );
+
+    // The client already mapped the Gemini finish reason
+    const finishReason = (choice.finishReason ??
+        (choice.tool_calls?.length
+            ? "tool_calls"
+            : "stop")) as OpenAI.ChatCompletionChoice["finish_reason"];
+
+    // The deprecated functions API returns a single call without an id
+    if (legacyFunctions) {
+        const [toolCall] = choice.tool_calls ?? [];
+        return {
+            index: choice.index,
+            message: {
+                role: "assistant",
+                ...message,
+                ...(refusal && {refusal}),
+                ...(toolCall && {function_call: toolCall.function}),
+            },
+            finish_reason:
+                finishReason === "tool_calls" ? "function_call" : finishReason,
+        };
+    }
+
+    return {
+        index: choice.index,
+        message: {
+            role: "assistant",
+            ...message,
+            ...(refusal && {refusal}),
+            tool_calls: choice.tool_calls,
+        },
+        finish_reason: finishReason,
+    };
+};
+
+const isJsonResponseFormat = (
+    responseFormat?: OpenAI.ResponseFormat,
+): boolean =>
+    responseFormat?.type === "json_object" ||
+    responseFormat?.type === "json_schema";
+
+const mapErrorToResponseError = (
+    error: unknown,
+): {
+    statusCode: number;
+    error: {message: string; type: string; param: null; code: string};
+} => {
+    const statusCode =
+        error instanceof GeminiApiError
+            ? error.statusCode
+            : error instanceof MediaResolutionError
+                ? 400
+                : 500;
+    const type =
+        statusCode >= 400 && statusCode < 500
+            ? "invalid_request_error"
+            : "server_error";
+    return {
+        statusCode,
+        error: {
+            message: error instanceof Error ? error.message : String(error),
+            type,
+            param: null,
+            code: statusCode === 429 ? "rate_limit_exceeded" : type,
+        },
+    };
+};
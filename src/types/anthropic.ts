@@ -1,21 +1,61 @@
 export type Role = "user" | "assistant";
 
+// Prompt caching marker, accepted for compatibility but not forwarded to Gemini
+export type CacheControl = {
+    type: "ephemeral";
+    ttl?: string;
+};
+
 export type TextContent = {
     type: "text";
     text: string;
+    cache_control?: CacheControl;
+};
+
+export type UrlSource = {
+    type: "url";
+    url: string;
 };
 
 export type ImageContent = {
     type: "image";
-    source: {
-        type: "base64";
-        media_type: "image/jpeg" | "image/png" | "image/gif" | "image/webp";
-        data: string;
-    };
+    source:
+        | {
+            type: "base64";
+            media_type: "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+            data: string;
+        }
+        | UrlSource;
+    cache_control?: CacheControl;
 };
 
 export type Content = TextContent | ImageContent;
 
+export type DocumentContent = {
+    type: "document";
+    source:
+        | {
+            type: "base64";
+            // application/pdf, or whatever type a fetched URL resolved to
+            media_type: string;
+            data: string;
+        }
+        | {
+            type: "text";
+            media_type: "text/plain";
+            data: string;
+        }
+        | {
+            type: "content";
+            content: string | Content[];
+        }
+        | UrlSource;
+    title?: string;
+    context?: string;
+    citations?: {enabled: boolean};
+    cache_control?: CacheControl;
+};
+
 export type Message = {
     role: Role;
     content: string | RequestContent[];
@@ -24,12 +64,14 @@ export type Message = {
 export type SystemMessage = {
     text: string;
     type: "text";
+    cache_control?: CacheControl;
 };
 
 export type Tool = {
     name: string;
     description: string;
     input_schema: object;
+    cache_control?: CacheControl;
 };
 
 export type ToolChoice = "auto" | "any" | {type: "tool"; name: string};
@@ -39,6 +81,7 @@ export type ToolUse = {
     id: string;
     name: string;
     input: object;
+    cache_control?: CacheControl;
 };
 
 export type ToolResult = {
@@ -46,18 +89,40 @@ export type ToolResult = {
     tool_use_id: string;
     content?: string | Content[];
     is_error?: boolean;
+    cache_control?: CacheControl;
+};
+
+export type ThinkingContent = {
+    type: "thinking";
+    thinking: string;
+    signature?: string;
 };
 
-export type MessageContent = TextContent | ImageContent | ToolUse | ToolResult;
+export type MessageContent =
+    | TextContent
+    | ImageContent
+    | ToolUse
+    | ToolResult
+    | ThinkingContent;
 
 // For messages in the request
-export type RequestContent = TextContent | ImageContent;
+export type RequestContent =
+    | TextContent
+    | ImageContent
+    | DocumentContent
+    | ToolUse
+    | ToolResult
+    | ThinkingContent;
+
+export type ThinkingConfig =
+    | {type: "enabled"; budget_tokens: number}
+    | {type: "disabled"};
 
 export type MessagesRequest = {
     model: string;
     max_tokens: number;
     messages: Message[];
-    system?: SystemMessage[];
+    system?: string | SystemMessage[];
     temperature?: number;
     top_p?: number;
     top_k?: number;
@@ -65,11 +130,14 @@ export type MessagesRequest = {
     stream?: boolean;
     tools?: Tool[];
     tool_choice?: ToolChoice;
+    thinking?: ThinkingConfig;
 };
 
 export type Usage = {
     input_tokens: number;
     output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
 };
 
 export type MessagesResponse = {
@@ -78,7 +146,12 @@ export type MessagesResponse = {
     role: "assistant";
     content: MessageContent[];
     model: string;
-    stop_reason: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use";
+    stop_reason:
+        | "end_turn"
+        | "max_tokens"
+        | "stop_sequence"
+        | "tool_use"
+        | "refusal";
     stop_sequence?: string;
     usage: Usage;
 };
@@ -102,9 +175,11 @@ export type ContentBlockDeltaEvent = StreamEvent & {
     type: "content_block_delta";
     index: number;
     delta: {
-        type: "text_delta" | "input_json_delta";
+        type: "text_delta" | "input_json_delta" | "thinking_delta" | "signature_delta";
         text?: string;
         partial_json?: string;
+        thinking?: string;
+        signature?: string;
     };
 };
 
@@ -116,10 +191,15 @@ export type ContentBlockStopEvent = StreamEvent & {
 export type MessageDeltaEvent = StreamEvent & {
     type: "message_delta";
     delta: {
-        stop_reason?: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use";
+        stop_reason?:
+            | "end_turn"
+            | "max_tokens"
+            | "stop_sequence"
+            | "tool_use"
+            | "refusal";
         stop_sequence?: string;
     };
-    usage?: {
+    usage?: Partial<Usage> & {
         output_tokens: number;
     };
 };
@@ -135,3 +215,51 @@ export type AnthropicError = {
         message: string;
     };
 };
+
+export type MessageBatchRequest = {
+    custom_id: string;
+    params: MessagesRequest;
+};
+
+export type MessageBatchCreateRequest = {
+    requests: MessageBatchRequest[];
+};
+
+export type MessageBatchRequestCounts = {
+    processing: number;
+    succeeded: number;
+    errored: number;
+    canceled: number;
+    expired: number;
+};
+
+export type MessageBatch = {
+    id: string;
+    type: "message_batch";
+    processing_status: "in_progress" | "canceling" | "ended";
+    request_counts: MessageBatchRequestCounts;
+    created_at: string;
+    expires_at: string;
+    ended_at: string | null;
+    cancel_initiated_at: string | null;
+    archived_at: string | null;
+    results_url: string | null;
+};
+
+export type MessageBatchResult =
+    | {type: "succeeded"; message: MessagesResponse}
+    | {type: "errored"; error: AnthropicError}
+    | {type: "canceled"}
+    | {type: "expired"};
+
+export type MessageBatchIndividualResponse = {
+    custom_id: string;
+    result: MessageBatchResult;
+};
+
+export type MessageBatchListResponse = {
+    data: MessageBatch[];
+    has_more: boolean;
+    first_id: string | null;
+    last_id: string | null;
+};
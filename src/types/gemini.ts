@@ -1,3 +1,5 @@
+import type {JsonSchema} from "./types.js";
+
 export enum Model {
     Gemini25Flash = "gemini-2.5-flash",
     Gemini25FlashLite = "gemini-2.5-flash-lite",
@@ -17,6 +19,15 @@ export type ChatCompletionRequestBody = {
     generationConfig?: {
         temperature?: number;
         maxOutputTokens?: number;
+        topP?: number;
+        topK?: number;
+        stopSequences?: string[];
+        seed?: number;
+        presencePenalty?: number;
+        frequencyPenalty?: number;
+        candidateCount?: number;
+        responseMimeType?: string;
+        responseSchema?: JsonSchema;
         thinkingConfig?: ThinkingConfig;
     };
 };
@@ -92,15 +103,20 @@ export type ChatMessage = {
 
 // Gemini API response types
 export type Candidate = {
+    index?: number;
     content?: {
         parts?: Array<{ text?: string }>;
     };
+    finishReason?: string;
+    finishMessage?: string;
 };
 
 export type UsageMetadata = {
     promptTokenCount?: number;
     candidatesTokenCount?: number;
     thoughtsTokenCount?: number;
+    cachedContentTokenCount?: number;
+    totalTokenCount?: number;
 };
 
 export type Response = {
@@ -110,6 +126,10 @@ export type Response = {
     };
 };
 
+export type CountTokensResponse = {
+    totalTokens?: number;
+};
+
 export type ProjectDiscoveryResponse = {
     cloudaicompanionProject?: string;
     allowedTiers:
@@ -1,10 +1,24 @@
-export type Role = "user" | "assistant" | "tool" | "system" | "developer";
+export type Role =
+    | "user"
+    | "assistant"
+    | "tool"
+    | "system"
+    | "developer"
+    // Results of the deprecated functions API
+    | "function";
 
 export type ChatCompletionRequest = {
     model: string;
     messages: ChatMessage[];
     temperature?: number;
+    top_p?: number;
     max_tokens?: number;
+    max_completion_tokens?: number;
+    stop?: string | string[];
+    seed?: number;
+    presence_penalty?: number;
+    frequency_penalty?: number;
+    n?: number;
     stream?: boolean;
     reasoning_effort?: ReasoningEffort;
     reasoning?: {
@@ -12,8 +26,26 @@ export type ChatCompletionRequest = {
     };
     tools?: Tool[];
     tool_choice?: ToolChoice;
+    parallel_tool_calls?: boolean;
+    response_format?: ResponseFormat;
+    // Deprecated predecessors of tools and tool_choice
+    functions?: FunctionDeclaration[];
+    function_call?: FunctionCallChoice;
 };
 
+export type ResponseFormat =
+    | {type: "text"}
+    | {type: "json_object"}
+    | {
+        type: "json_schema";
+        json_schema: {
+            name: string;
+            description?: string;
+            schema?: object;
+            strict?: boolean;
+        };
+    };
+
 export enum ReasoningEffort {
     low = "low",
     medium = "medium",
@@ -35,16 +67,21 @@ export type FunctionDeclaration = {
 export type ToolChoice =
     | "none"
     | "auto"
+    | "required"
     | { type: "function"; function: { name: string } };
 
+export type FunctionCallChoice = "none" | "auto" | {name: string};
+
+export type FunctionCall = {
+    name: string;
+    arguments: string;
+};
+
 export type ToolCall = {
     index: number;
     id: string;
     type: "function";
-    function: {
-        name: string;
-        arguments: string;
-    };
+    function: FunctionCall;
 };
 
 export type ChatMessage = {
@@ -53,15 +90,31 @@ export type ChatMessage = {
     tool_calls?: ToolCall[];
     tool_call_id?: string;
     reasoning_content?: string;
+    // Deprecated functions API, the name identifies function role messages
+    function_call?: FunctionCall;
+    name?: string;
 };
 
 export type MessageContent = {
-    type: "text" | "image_url";
+    type: "text" | "refusal" | "image_url" | "file" | "input_audio";
     text?: string;
+    // Echoed back in assistant messages whose turn was refused
+    refusal?: string;
     image_url?: {
         url: string;
         detail?: "low" | "high" | "auto";
     };
+    file?: {
+        // Base64 data, either plain or as a data URI
+        file_data?: string;
+        file_id?: string;
+        filename?: string;
+    };
+    input_audio?: {
+        // Base64 data
+        data: string;
+        format: "wav" | "mp3";
+    };
 };
 
 export interface ChatCompletionResponse {
@@ -70,21 +123,42 @@ export interface ChatCompletionResponse {
     created: number;
     model: string;
     choices: ChatCompletionChoice[];
-    usage?: ChatCompletionUsage;
+    usage?: UsageData;
 }
 
 export type ChatCompletionChoice = {
     index: number;
     message: ChatCompletionMessage;
-    finish_reason: "stop" | "length" | "tool_calls" | "content_filter" | null;
+    finish_reason:
+        | "stop"
+        | "length"
+        | "tool_calls"
+        | "function_call"
+        | "content_filter"
+        | null;
 };
 
 export type ChatCompletionMessage = {
     role: "assistant";
     content: string | null;
+    refusal?: string | null;
+    reasoning_content?: string;
+    reasoning?: string;
     tool_calls?: ToolCall[];
+    function_call?: FunctionCall;
 };
 
+/**
+ * Where model thoughts are returned: a `reasoning_content` field (DeepSeek
+ * style), a `reasoning` field, inline <thinking> tags in the content or not
+ * at all
+ */
+export type ReasoningOutputMode =
+    | "reasoning_content"
+    | "reasoning"
+    | "inline"
+    | "hidden";
+
 export type ChatCompletionUsage = {
     prompt_tokens: number;
     completion_tokens: number;
@@ -94,8 +168,12 @@ export type ChatCompletionUsage = {
 export type StreamDelta = {
     role?: string;
     content?: string | null;
+    refusal?: string | null;
     reasoning?: string;
+    reasoning_content?: string;
+    thought_signature?: string;
     tool_calls?: ToolCall[];
+    function_call?: FunctionCall;
     native_tool_calls?: NativeToolResponse[];
     grounding?: unknown;
 };
@@ -111,19 +189,271 @@ export type StreamChunk = {
     object: string;
     created: number;
     model: string;
-    choices: [
-        {
-            index: number;
-            delta: StreamDelta;
-            finish_reason: string | null;
-            logprobs?: null;
-        }
-    ];
+    choices: StreamChoice[];
     usage?: UsageData | null;
 };
 
+export type StreamChoice = {
+    index: number;
+    delta: StreamDelta;
+    finish_reason: string | null;
+    logprobs?: null;
+};
+
 export type UsageData = {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
+    prompt_tokens_details?: {
+        cached_tokens: number;
+    };
+    completion_tokens_details?: {
+        reasoning_tokens: number;
+    };
+};
+
+// Legacy completions API
+
+export type CompletionRequest = {
+    model: string;
+    prompt: string | string[];
+    suffix?: string;
+    max_tokens?: number;
+    temperature?: number;
+    top_p?: number;
+    stop?: string | string[];
+    echo?: boolean;
+    stream?: boolean;
+};
+
+export type TextCompletionChoice = {
+    index: number;
+    text: string;
+    logprobs: null;
+    finish_reason: string | null;
+};
+
+export type TextCompletionResponse = {
+    id: string;
+    object: "text_completion";
+    created: number;
+    model: string;
+    choices: TextCompletionChoice[];
+    usage?: ChatCompletionUsage;
+};
+
+// Responses API
+
+export type ResponsesRequest = {
+    model: string;
+    input: string | ResponseInputItem[];
+    instructions?: string;
+    tools?: ResponseTool[];
+    tool_choice?: ResponseToolChoice;
+    parallel_tool_calls?: boolean;
+    reasoning?: {
+        effort?: ReasoningEffort;
+        summary?: "auto" | "concise" | "detailed";
+    };
+    temperature?: number;
+    max_output_tokens?: number;
+    stream?: boolean;
+    store?: boolean;
+    previous_response_id?: string;
+    metadata?: Record<string, string>;
+};
+
+export type ResponseTool = {
+    type: "function";
+    name: string;
+    description?: string;
+    parameters?: object;
+    strict?: boolean;
+};
+
+export type ResponseToolChoice =
+    | "none"
+    | "auto"
+    | "required"
+    | {type: "function"; name: string};
+
+export type ResponseInputContent =
+    | {type: "input_text"; text: string}
+    | {type: "output_text"; text: string}
+    | {
+        type: "input_image";
+        image_url?: string;
+        detail?: "low" | "high" | "auto";
+    };
+
+export type ResponseInputMessage = {
+    type?: "message";
+    role: "user" | "assistant" | "system" | "developer";
+    content: string | ResponseInputContent[];
+};
+
+// Output items sent back as input may leave out their ids and status
+export type ResponseInputItem =
+    | ResponseInputMessage
+    | (Omit<ResponseFunctionCall, "id" | "status"> &
+          Partial<Pick<ResponseFunctionCall, "id" | "status">>)
+    | (Omit<ResponseReasoningItem, "id"> & {id?: string})
+    | {
+        type: "function_call_output";
+        call_id: string;
+        output: string;
+    };
+
+export type ResponseOutputText = {
+    type: "output_text";
+    text: string;
+    annotations: unknown[];
+};
+
+export type ResponseSummaryText = {
+    type: "summary_text";
+    text: string;
+};
+
+export type ResponseOutputMessage = {
+    type: "message";
+    id: string;
+    role: "assistant";
+    status: "in_progress" | "completed";
+    content: ResponseOutputText[];
+};
+
+export type ResponseReasoningItem = {
+    type: "reasoning";
+    id: string;
+    summary: ResponseSummaryText[];
+};
+
+export type ResponseFunctionCall = {
+    type: "function_call";
+    id: string;
+    call_id: string;
+    name: string;
+    arguments: string;
+    status: "in_progress" | "completed";
+};
+
+export type ResponseOutputItem =
+    | ResponseOutputMessage
+    | ResponseReasoningItem
+    | ResponseFunctionCall;
+
+export type ResponseUsage = {
+    input_tokens: number;
+    input_tokens_details: {cached_tokens: number};
+    output_tokens: number;
+    output_tokens_details: {reasoning_tokens: number};
+    total_tokens: number;
+};
+
+export type ResponseError = {
+    code: string;
+    message: string;
+};
+
+export type ResponseObject = {
+    id: string;
+    object: "response";
+    created_at: number;
+    status: "in_progress" | "completed" | "incomplete" | "failed";
+    model: string;
+    output: ResponseOutputItem[];
+    instructions: string | null;
+    previous_response_id: string | null;
+    tools: ResponseTool[];
+    tool_choice: ResponseToolChoice;
+    temperature: number | null;
+    max_output_tokens: number | null;
+    reasoning: ResponsesRequest["reasoning"] | null;
+    store: boolean;
+    metadata: Record<string, string>;
+    usage: ResponseUsage | null;
+    incomplete_details: {
+        reason: "max_output_tokens" | "content_filter";
+    } | null;
+    error: ResponseError | null;
 };
+
+export type ResponseStreamEvent = {sequence_number: number} & (
+    | {
+        type:
+              | "response.created"
+              | "response.in_progress"
+              | "response.completed"
+              | "response.incomplete"
+              | "response.failed";
+        response: ResponseObject;
+    }
+    | {
+        type: "response.output_item.added" | "response.output_item.done";
+        output_index: number;
+        item: ResponseOutputItem;
+    }
+    | {
+        type: "response.content_part.added" | "response.content_part.done";
+        item_id: string;
+        output_index: number;
+        content_index: number;
+        part: ResponseOutputText;
+    }
+    | {
+        type: "response.output_text.delta";
+        item_id: string;
+        output_index: number;
+        content_index: number;
+        delta: string;
+    }
+    | {
+        type: "response.output_text.done";
+        item_id: string;
+        output_index: number;
+        content_index: number;
+        text: string;
+    }
+    | {
+        type:
+              | "response.reasoning_summary_part.added"
+              | "response.reasoning_summary_part.done";
+        item_id: string;
+        output_index: number;
+        summary_index: number;
+        part: ResponseSummaryText;
+    }
+    | {
+        type: "response.reasoning_summary_text.delta";
+        item_id: string;
+        output_index: number;
+        summary_index: number;
+        delta: string;
+    }
+    | {
+        type: "response.reasoning_summary_text.done";
+        item_id: string;
+        output_index: number;
+        summary_index: number;
+        text: string;
+    }
+    | {
+        type: "response.function_call_arguments.delta";
+        item_id: string;
+        output_index: number;
+        delta: string;
+    }
+    | {
+        type: "response.function_call_arguments.done";
+        item_id: string;
+        output_index: number;
+        arguments: string;
+    }
+    | {
+        type: "error";
+        code: string;
+        message: string;
+        param: string | null;
+    }
+);
@@ -5,10 +5,30 @@ export const DEFAULT_PORT = "3000";
 export const DISABLE_GOOGLE_SEARCH = true;
 export const DISABLE_BROWSER_AUTH = false;
 export const DISABLE_AUTO_MODEL_SWITCH = false;
+export const PERSIST_THOUGHT_SIGNATURES = false;
+export const DEFAULT_REASONING_OUTPUT = "reasoning_content" as const;
 export const DEFAULT_TEMPERATURE = 1;
 
 export const REQUEST_TIMEOUT_MS = 600000; // 10 minutes
 
+// Remote media (image/document URLs) fetched and inlined into requests
+export const MEDIA_FETCH_TIMEOUT_MS = 30000; // 30 seconds
+export const MEDIA_FETCH_MAX_BYTES = 20 * 1024 * 1024; // Gemini inline data limit
+export const MEDIA_FETCH_MAX_REDIRECTS = 5;
+
+// Message Batches
+export const BATCH_CONCURRENCY_PER_ACCOUNT = 2;
+export const BATCH_MAX_CONCURRENCY = 8;
+export const BATCH_MAX_RETRIES = 3;
+export const BATCH_EXPIRY_HOURS = 24;
+
+// Responses API conversations kept for previous_response_id
+export const RESPONSE_STORE_MAX_ENTRIES = 1000;
+
+// Thought signatures kept to replay Gemini 3 function calls and text turns
+export const THOUGHT_SIGNATURE_STORE_MAX_ENTRIES = 5000;
+export const THOUGHT_SIGNATURE_SAVE_DELAY_MS = 1000;
+
 // OAuth Rotation Configuration
 export const OAUTH_ROTATION_PATHS: string[] = [];
 
@@ -0,0 +1,28 @@
+import {describe, it, expect} from "vitest";
+import {EventEmitter} from "node:events";
+import type {Response} from "express";
+import {createDisconnectSignal} from "./disconnect.js";
+
+const createResponse = (writableFinished: boolean) =>
+    Object.assign(new EventEmitter(), {writableFinished}) as unknown as
+        Response;
+
+describe("createDisconnectSignal", () => {
+    it("should abort when the connection closes early", () => {
+        const res = createResponse(false);
+        const signal = createDisconnectSignal(res);
+
+        res.emit("close");
+
+        expect(signal.aborted).toBe(true);
+    });
+
+    it("should not abort after the response was sent", () => {
+        const res = createResponse(true);
+        const signal = createDisconnectSignal(res);
+
+        res.emit("close");
+
+        expect(signal.aborted).toBe(false);
+    });
+});
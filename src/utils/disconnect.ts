@@ -0,0 +1,16 @@
+import type {Response} from "express";
+
+/**
+ * Returns a signal that aborts when the client closes the connection before
+ * the response was fully sent, so the upstream Gemini request can be
+ * cancelled instead of being read to the end.
+ */
+export function createDisconnectSignal(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.on("close", () => {
+        if (!res.writableFinished) {
+            controller.abort();
+        }
+    });
+    return controller.signal;
+}
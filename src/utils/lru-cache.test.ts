@@ -0,0 +1,31 @@
+import {describe, it, expect} from "vitest";
+import {LruCache} from "./lru-cache.js";
+
+describe("LruCache", () => {
+    it("should drop the least recently used entry once full", () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set("a", 1);
+        cache.set("b", 2);
+        cache.get("a");
+        cache.set("c", 3);
+
+        expect(cache.get("b")).toBeUndefined();
+        expect(cache.toArray()).toEqual([
+            ["a", 1],
+            ["c", 3],
+        ]);
+    });
+
+    it("should keep the most recent initial entries", () => {
+        const cache = new LruCache(2, [
+            ["a", 1],
+            ["b", 2],
+            ["c", 3],
+        ]);
+
+        expect(cache.toArray()).toEqual([
+            ["b", 2],
+            ["c", 3],
+        ]);
+    });
+});
@@ -0,0 +1,45 @@
+/**
+ * Map that drops its least recently used entries once it holds more than
+ * `maxEntries`. Reading an entry marks it as recently used.
+ */
+export class LruCache<K, V> {
+    private readonly entries: Map<K, V>;
+
+    constructor(
+        private readonly maxEntries: number,
+        entries: Iterable<[K, V]> = [],
+    ) {
+        this.entries = new Map();
+        for (const [key, value] of entries) {
+            this.set(key, value);
+        }
+    }
+
+    public get(key: K): V | undefined {
+        if (!this.entries.has(key)) {
+            return undefined;
+        }
+        const value = this.entries.get(key) as V;
+        // Re-insert to mark the entry as recently used
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    public set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as K;
+            this.entries.delete(oldest);
+        }
+    }
+
+    /**
+     * Returns the entries from least to most recently used
+     */
+    public toArray(): Array<[K, V]> {
+        return [...this.entries];
+    }
+}
@@ -12,6 +12,8 @@ export const ACCOUNTS_DIR = "accounts";
 export const CREDENTIAL_FILENAME = "oauth_creds.json";
 export const GOOGLE_ACCOUNTS_FILENAME = "accounts.json";
 export const REQUEST_COUNTS_FILENAME = "request_counts.json";
+export const BATCHES_DIR = "batches";
+export const THOUGHT_SIGNATURES_FILENAME = "thought_signatures.json";
 
 /**
  * Get the path to the cached credentials file
@@ -44,3 +46,19 @@ export function getRequestCountsPath(): string {
 export function getGoogleAccountsCachePath(): string {
     return path.join(os.homedir(), GEMINI_DIR, GOOGLE_ACCOUNTS_FILENAME);
 }
+
+/**
+ * Get the path to the message batches directory
+ * @returns The absolute path to the message batches directory
+ */
+export function getBatchesDirPath(): string {
+    return path.join(os.homedir(), GEMINI_DIR, BATCHES_DIR);
+}
+
+/**
+ * Get the path to the persisted thought signatures file
+ * @returns The absolute path to the thought signatures file
+ */
+export function getThoughtSignaturesPath(): string {
+    return path.join(os.homedir(), GEMINI_DIR, THOUGHT_SIGNATURES_FILENAME);
+}